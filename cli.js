@@ -2,36 +2,113 @@
 
 import chalk from "chalk";
 import { Command } from "commander";
+import { hasMagic } from "glob";
 import latestVersion from "latest-version";
-import DocServer from "./lib/elm-doc-server.js";
+import DocServer, {
+  DocServerError,
+  diagnostics,
+  exitCode,
+  formatReport,
+  reportFormats,
+} from "./lib/elm-doc-server.js";
 import { version } from "./lib/version.js";
 
 /*
  * Program options and usage
  */
 function init() {
-  let pkgPath = ".";
+  let pkgPaths = [];
   const program = new Command();
   program
     .version(version)
-    .arguments("[path_to_package_or_application]")
-    .action((dir) => {
-      if (dir !== undefined) {
-        pkgPath = dir;
-      }
+    .arguments("[paths_to_packages_or_applications...]")
+    .action((dirs) => {
+      pkgPaths = dirs;
     })
     .option("-a, --address <address>", "the server listen address", "127.0.0.1")
     .option("-b, --no-browser", "do not open in browser when server starts")
+    .option(
+      "-c, --check",
+      "check documentation quality and exit with status code"
+    )
+    .option(
+      "--fail-on <severity>",
+      "lowest check severity failing (info, warning or error)",
+      "error"
+    )
+    .option("--check-report <report.json>", "write check findings as JSON")
+    .option(
+      "--compiler <command>",
+      "compiler executable path or command (default: local elm, then elm)"
+    )
+    .option(
+      "--compiler-args <args>",
+      "compiler arguments given before its own ones, space separated",
+      (args) => args.split(/\s+/).filter(Boolean)
+    )
     .option(
       "-d, --debug",
       "enable debug (display watched files and keep temporary files)"
     )
+    .option(
+      "-D, --diff <version>",
+      "show API changes since a cached version, suggest the next one and exit"
+    )
+    .option(
+      "--elm-home <dir>",
+      "compiler cache directory, relative to each project (default: ELM_HOME)"
+    )
+    .option(
+      "-x, --examples",
+      "compile the elm code examples of the docs and README (live or with --check)"
+    )
+    .option(
+      "-e, --export <dir>",
+      "export a static documentation site with dependencies and exit"
+    )
+    .option(
+      "-g, --generate-deps",
+      "generate the missing docs of cached dependencies and exit with status code"
+    )
+    .option(
+      "--graph <graph.json|graph.dot>",
+      "write the modules import graph as JSON or Graphviz DOT and exit"
+    )
+    .option("--graph-exposed", "only include exposed modules in the graph")
+    .option(
+      "--graph-namespaces",
+      "group the graph modules by top-level namespace"
+    )
+    .option(
+      "-l, --lenient",
+      "build applications with placeholders for the missing docs"
+    )
+    .option(
+      "-m, --markdown <dir>",
+      "generate docs as Markdown files and exit with status code"
+    )
     .option(
       "-o, --output <docs.json>",
       "generate docs and exit with status code (/dev/null supported)"
     )
     .option("-p, --port <port>", "the server listen port", Math.floor, 8000)
-    .option("-r, --no-reload", "disable hot reloading");
+    .option("-r, --no-reload", "disable hot reloading")
+    .option(
+      "-R, --ref <ref>",
+      "preview the docs of a git branch, tag or commit as a 0.0.x release (repeatable)",
+      (ref, refs = []) => refs.concat([ref])
+    )
+    .option(
+      "--report <format>",
+      "report build errors as json, github annotations or compact lines"
+    )
+    .option(
+      "-s, --share",
+      "share read-only on the network with a token protected URL"
+    )
+    .option("-t, --timeout <seconds>", "build timeout (default: none)", (s) =>
+      Math.round(parseFloat(s) * 1000)
+    );
 
   program.on("--help", () => {
     console.log("");
@@ -40,7 +117,7 @@ function init() {
   });
 
   program.parse(process.argv);
-  program.dir = pkgPath;
+  program.paths = pkgPaths;
   return program;
 }
 
@@ -67,23 +144,108 @@ checkUpdate(version);
 
 const options = program.opts();
 
+// Default values do not override the project configuration file
+[
+  "address",
+  "browser",
+  "compiler",
+  "compilerArgs",
+  "elmHome",
+  "port",
+  "reload",
+  "timeout",
+].forEach((key) => {
+  if (program.getOptionValueSource(key) === "default") {
+    delete options[key];
+  }
+});
+
+// Repeated --ref options
+if (options.ref) {
+  options.refs = options.ref;
+  delete options.ref;
+}
+
+// Reports are printed alone on the standard output, and logs on the error one
+if (options.report) {
+  if (!reportFormats.includes(options.report)) {
+    console.log(
+      chalk.red(
+        `invalid report format ${options.report} (${reportFormats.join(", ")})`
+      )
+    );
+    process.exit(1);
+  }
+  console.log = console.error;
+}
+
+// Several paths or glob patterns preview a workspace of projects
+if (program.paths.length === 1 && !hasMagic(program.paths[0])) {
+  options.dir = program.paths[0];
+} else {
+  options.workspace = program.paths;
+}
+
 process
   .on("SIGINT", () => process.exit(0))
   .on("uncaughtException", (e) => {
     if (e.errno === "EADDRINUSE") {
-      console.log(
-        chalk.red(`port ${program.port} already used, use --port option`)
-      );
+      console.log(chalk.red(`port ${e.port} already used, use --port option`));
     } else {
       console.log(chalk.red(e));
     }
     process.exit(1);
   });
 
-const docServer = new DocServer(options);
+const exit = (status) => () => {
+  const report = options.report && formatReport(options.report, []);
+  if (report) {
+    process.stdout.write(`${report}\n`);
+  }
+  process.exit(status);
+};
+const fail = (err) => {
+  const found = diagnostics(err);
+  if (options.report) {
+    process.stdout.write(`${formatReport(options.report, found)}\n`);
+  } else if (err.code === "EADDRINUSE") {
+    console.log(chalk.red(`port ${err.port} already used, use --port option`));
+  } else {
+    console.log(chalk.red(err.message || err));
+  }
+  process.exit(exitCode(found));
+};
+// Exit like the other modes when the checks pass, and fail with message else
+const verdict = (message) => (passed) =>
+  passed ? exit(0)() : fail(new DocServerError(message));
 
-if (options.output) {
-  docServer.make(options.output);
-} else {
-  docServer.listen();
-}
+DocServer.create(options)
+  .then((docServer) => {
+    if (options.export) {
+      return docServer.export(options.export).then(exit(0));
+    } else if (options.check) {
+      return docServer
+        .check(options.failOn, options.checkReport)
+        .then(verdict("documentation check failed"));
+    } else if (options.generateDeps) {
+      return docServer
+        .generateDependenciesDocs()
+        .then(verdict("cannot generate some dependencies docs"));
+    } else if (options.graph) {
+      return docServer
+        .graph(options.graph, {
+          exposed: options.graphExposed,
+          namespaces: options.graphNamespaces,
+        })
+        .then(exit(0));
+    } else if (options.diff) {
+      return docServer.diff(options.diff).then(exit(0));
+    } else if (options.markdown) {
+      return docServer.markdown(options.markdown).then(exit(0));
+    } else if (options.output) {
+      return docServer.make(options.output).then(exit(0));
+    } else {
+      return docServer.start();
+    }
+  })
+  .catch(fail);
@@ -0,0 +1,140 @@
+export interface Build<T> {
+  hash: string;
+  result: T;
+  duration: number;
+}
+
+export interface BuilderOptions<T> {
+  // build the sources
+  build: () => Promise<T>;
+  // hash the sources content
+  hash: () => Promise<string>;
+  // tell if a result is good enough to be served while building
+  isGood: (result: T) => boolean;
+  // called when a build starts
+  onStart: () => void;
+  // called with each new build result and its duration in milliseconds
+  onBuild: (result: T, duration: number) => void;
+  // called when hashing or building fails without anyone waiting for it
+  onError: (err: unknown) => void;
+  // debounce delay in milliseconds
+  delay: number;
+}
+
+/*
+ * Asynchronous builds queue that debounces build requests, runs one build
+ * at a time, drops builds whose sources changed meanwhile, and caches the
+ * last and last good results by sources hash.
+ */
+export class Builder<T> {
+  private options: BuilderOptions<T>;
+  private timer: NodeJS.Timeout | null = null;
+  private building: Promise<T> | null = null;
+  private stale = false;
+  // sources hash of the current build
+  private hash: string | null = null;
+  private compiling = false;
+  private last: Build<T> | null = null;
+  private good: Build<T> | null = null;
+
+  constructor(options: BuilderOptions<T>) {
+    this.options = options;
+  }
+
+  get isBuilding(): boolean {
+    return this.compiling;
+  }
+
+  get lastBuild(): Build<T> | null {
+    return this.last;
+  }
+
+  // Request a build after the debounce delay
+  schedule() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.options
+        .hash()
+        .then((hash) => this.run(hash))
+        .catch(this.options.onError);
+    }, this.options.delay);
+  }
+
+  // Cancel the pending build request, if any
+  cancel() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /*
+   * Return the result for the current sources, or the last good one
+   * while building to stay responsive, as the new one will be notified.
+   */
+  async get(): Promise<T> {
+    const hash = await this.options.hash();
+    if (this.last && this.last.hash === hash) {
+      return this.last.result;
+    }
+    const build = this.run(hash);
+    if (this.good) {
+      build.catch(this.options.onError);
+      return this.good.result;
+    }
+    return build;
+  }
+
+  // Wait for the current result, building it if needed
+  async latest(): Promise<T> {
+    const hash = await this.options.hash();
+    if (this.last && this.last.hash === hash && !this.building) {
+      return this.last.result;
+    }
+    return this.run(hash);
+  }
+
+  private run(hash: string): Promise<T> {
+    if (this.building) {
+      if (hash !== this.hash) {
+        // Sources changed since the current build started
+        this.stale = true;
+      }
+      return this.building;
+    }
+    this.building = this.loop(hash).finally(() => {
+      this.building = null;
+      this.hash = null;
+    });
+    return this.building;
+  }
+
+  private async loop(hash: string): Promise<T> {
+    for (;;) {
+      this.stale = false;
+      this.hash = hash;
+      if (this.last && this.last.hash === hash) {
+        return this.last.result;
+      }
+      this.compiling = true;
+      this.options.onStart();
+      const start = Date.now();
+      const result = await this.options.build().finally(() => {
+        this.compiling = false;
+      });
+      const duration = Date.now() - start;
+      if (!this.stale) {
+        this.last = { hash, result, duration };
+        if (this.options.isGood(result)) {
+          this.good = this.last;
+        }
+        this.options.onBuild(result, duration);
+        return result;
+      }
+      hash = await this.options.hash();
+    }
+  }
+}
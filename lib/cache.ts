@@ -0,0 +1,142 @@
+import fs from "fs";
+import path from "path";
+import { glob } from "glob";
+import { unique } from "./modules.js";
+
+export interface CachedPackage {
+  name: string;
+  summary: string;
+  license: string;
+  versions: string[];
+}
+
+interface Version {
+  summary: string;
+  license: string;
+  // elm.json modification time in seconds, like the releases timestamps
+  timestamp: number;
+}
+
+/*
+ * In memory index of the packages versions of the compiler cache, read once
+ * from their elm.json files then updated file by file.
+ */
+export class PackageIndex {
+  private packages = new Map<string, Map<string, Version>>();
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  // Index all the cached packages, returning the number of versions
+  async load(): Promise<number> {
+    const files = await glob("*/*/*/elm.json", { cwd: this.dir });
+    const added = await Promise.all(files.map((file) => this.update(file)));
+    return added.filter(Boolean).length;
+  }
+
+  /*
+   * Index again a cached elm.json, given relative to the cache directory.
+   * Return false if it is not a version or cannot be read yet, like while
+   * being installed.
+   */
+  async update(file: string): Promise<boolean> {
+    const [author, project, version] = file.split(/[\\/]/);
+    if (!/^\d+\.\d+\.\d+$/.test(version)) {
+      return false;
+    }
+    try {
+      const elmJson = path.join(this.dir, file);
+      const [json, stat] = await Promise.all([
+        fs.promises.readFile(elmJson, "utf8"),
+        fs.promises.stat(elmJson),
+      ]);
+      const manifest = JSON.parse(json);
+      const name = `${author}/${project}`;
+      const versions = this.packages.get(name) || new Map<string, Version>();
+      versions.set(version, {
+        summary: manifest.summary || "",
+        license: manifest.license || "Fair",
+        timestamp: Math.round(stat.mtime.getTime() / 1000),
+      });
+      this.packages.set(name, versions);
+      return true;
+    } catch (err) {
+      return false;
+    }
+  }
+
+  // Remove a deleted elm.json version from the index
+  delete(file: string) {
+    const [author, project, version] = file.split(/[\\/]/);
+    const name = `${author}/${project}`;
+    const versions = this.packages.get(name);
+    if (versions) {
+      versions.delete(version);
+      if (versions.size === 0) {
+        this.packages.delete(name);
+      }
+    }
+  }
+
+  // Packages in the search.json format, described by their latest version
+  list(): CachedPackage[] {
+    return Array.from(this.packages.entries()).map(([name, versions]) => {
+      const sorted = Array.from(versions.keys()).sort(compareVersions);
+      const latest = versions.get(sorted[sorted.length - 1]) as Version;
+      return {
+        name,
+        summary: latest.summary,
+        license: latest.license,
+        versions: sorted,
+      };
+    });
+  }
+
+  // Cached versions of a package with their timestamps
+  releases(name: string): Record<string, number> {
+    const versions = this.packages.get(name) || new Map<string, Version>();
+    return Object.fromEntries(
+      Array.from(versions.entries()).map(([version, { timestamp }]) => [
+        version,
+        timestamp,
+      ])
+    );
+  }
+}
+
+/*
+ * Packages listed by several indexes, with the versions of all of them and
+ * described by their latest version
+ */
+export function mergePackages(lists: CachedPackage[][]): CachedPackage[] {
+  const packages = new Map<string, CachedPackage>();
+  lists.flat().forEach((pkg) => {
+    const known = packages.get(pkg.name);
+    if (!known) {
+      packages.set(pkg.name, pkg);
+      return;
+    }
+    const latest = (p: CachedPackage) => p.versions[p.versions.length - 1];
+    packages.set(pkg.name, {
+      ...(compareVersions(latest(pkg), latest(known)) > 0 ? pkg : known),
+      versions: unique([...known.versions, ...pkg.versions]).sort(
+        compareVersions
+      ),
+    });
+  });
+  return Array.from(packages.values());
+}
+
+// Compare x.y.z versions, for sorting them in increasing order
+export function compareVersions(v1: string, v2: string): number {
+  const a = v1.split(".").map((n) => parseInt(n));
+  const b = v2.split(".").map((n) => parseInt(n));
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,160 @@
+import { Module } from "./docs.js";
+import { firstParagraph, plainText } from "./report.js";
+
+export type Severity = "info" | "warning" | "error";
+
+export interface Finding {
+  severity: Severity;
+  rule: string;
+  module: string;
+  symbol?: string;
+  message: string;
+}
+
+export const severities: Severity[] = ["info", "warning", "error"];
+
+const placeholder = /\b(TODO|TBD|FIXME|XXX|lorem ipsum|coming soon)\b/i;
+
+// Titles of the compiler errors about exposed symbols without documentation
+const missingTitles = ["NO DOCS", "DOCS MISTAKE"];
+
+/*
+ * Check the documentation quality of a docs.json and its README,
+ * the compiler already checking that the documentation is valid.
+ */
+export function checkDocs(docs: Module[], readme: string | null): Finding[] {
+  return docs
+    .flatMap((module) => checkModule(module))
+    .concat(checkReadme(readme));
+}
+
+/*
+ * The missing-docs findings of a compiler report failing only on missing
+ * documentation, which the compiler refuses to build, or null if it has
+ * other errors.
+ */
+export function missingDocs(report: object): Finding[] | null {
+  const errors: any[] =
+    (report as any).type === "compile-errors" ? (report as any).errors : [];
+  const problems = errors.flatMap((error) =>
+    error.problems.map((problem: any) => ({ module: error.name, problem }))
+  );
+  if (
+    problems.length === 0 ||
+    !problems.every(({ problem }) => missingTitles.includes(problem.title))
+  ) {
+    return null;
+  }
+  return problems.map(({ module, problem }) => {
+    const message = firstParagraph(plainText(problem.message)).replace(
+      /:$/,
+      "."
+    );
+    const symbol = message.match(/`([^`]+)`/);
+    return {
+      severity: "error",
+      rule: "missing-docs",
+      module,
+      symbol: symbol ? symbol[1] : undefined,
+      message,
+    };
+  });
+}
+
+export function exceeds(findings: Finding[], threshold: Severity): boolean {
+  const level = severities.indexOf(threshold);
+  return findings.some((f) => severities.indexOf(f.severity) >= level);
+}
+
+function checkModule(module: Module): Finding[] {
+  const findings: Finding[] = [];
+  const finding = (
+    severity: Severity,
+    rule: string,
+    message: string,
+    symbol?: string
+  ) => findings.push({ severity, rule, module: module.name, symbol, message });
+
+  const overview = module.comment
+    .split("\n")
+    .filter((line) => !line.trim().startsWith("@docs"))
+    .join("\n");
+  if (overview.trim() === "") {
+    finding("warning", "no-overview", "module has no overview text");
+  }
+
+  const entries: { name: string; comment: string }[] = [
+    ...module.unions,
+    ...module.aliases,
+    ...module.values,
+    ...module.binops,
+  ];
+
+  entries.forEach((entry) => {
+    if (entry.comment.trim() === "") {
+      finding("warning", "empty-comment", "empty doc comment", entry.name);
+    } else if (placeholder.test(entry.comment)) {
+      finding(
+        "info",
+        "placeholder-comment",
+        "doc comment contains a placeholder",
+        entry.name
+      );
+    }
+  });
+  return findings;
+}
+
+function checkReadme(readme: string | null): Finding[] {
+  const finding = (severity: Severity, rule: string, message: string) => ({
+    severity,
+    rule,
+    module: "README.md",
+    message,
+  });
+
+  if (readme === null) {
+    return [finding("error", "no-readme", "missing README.md")];
+  }
+  if (readme.trim() === "") {
+    return [finding("error", "empty-readme", "README.md is empty")];
+  }
+
+  // Split by headings, ignoring code blocks that may contain shell comments
+  const findings: Finding[] = [];
+  const sections = readme
+    .replace(/^```[\s\S]*?^```/gm, "```code```")
+    .split(/^(?=#{1,6}\s)/m);
+  sections.forEach((section, i) => {
+    const [title, ...lines] = section.split("\n");
+    if (!title.startsWith("#")) {
+      return;
+    }
+    const name = title.replace(/^#+\s*/, "").trim();
+    const body = lines.join("\n").trim();
+    const next = sections[i + 1];
+    if (body === "" && next && headingLevel(next) > headingLevel(title)) {
+      // only contains sub-sections
+      return;
+    }
+    if (body === "") {
+      findings.push(
+        finding("warning", "empty-section", `section "${name}" is empty`)
+      );
+    } else if (placeholder.test(body)) {
+      findings.push(
+        finding(
+          "warning",
+          "placeholder-section",
+          `section "${name}" contains a placeholder`
+        )
+      );
+    }
+  });
+  return findings;
+}
+
+function headingLevel(line: string): number {
+  const match = line.match(/^#+/);
+  return match ? match[0].length : 0;
+}
@@ -0,0 +1,208 @@
+import os from "os";
+import path from "path";
+import process from "process";
+import { ChildProcess } from "child_process";
+import spawn from "cross-spawn";
+import { ElmError } from "./errors.js";
+
+export type Exec = {
+  error?: globalThis.Error;
+  status: number | null;
+  stdout: string;
+  stderr: string;
+};
+
+export interface CompilerOptions {
+  // executable path or command, the project local elm or elm by default
+  command?: string;
+  // arguments given before the compiler ones, like ["elm"] for npx
+  args?: string[];
+  // cache directory, ELM_HOME or the Elm default one if not given
+  elmHome?: string;
+  // build timeout in milliseconds, 0 for none
+  timeout?: number;
+}
+
+/*
+ * An Elm compatible compiler, like elm, a pinned binary or lamdera, with its
+ * own cache. Its commands are killed on timeout or when cancelled.
+ */
+export class Compiler {
+  readonly command: string[];
+  readonly version: string;
+  readonly elmHome: string;
+  private timeout: number;
+  private running = new Map<ChildProcess, (reason: string) => void>();
+
+  /*
+   * Find and check the compiler, preferring the project local elm.
+   * Relative command paths are relative to the project directory.
+   */
+  static async find(
+    cwd: string,
+    options: CompilerOptions = {}
+  ): Promise<Compiler> {
+    const candidates = commands(cwd, options);
+    let command = candidates[0];
+    let exec: Exec = { status: null, stdout: "", stderr: "" };
+    for (command of candidates) {
+      exec = await run(command, ["--version"], cwd, environment(options));
+      if (!failed(exec)) {
+        break;
+      }
+    }
+    return new Compiler(command, checkVersion(command, exec), options);
+  }
+
+  static findSync(cwd: string, options: CompilerOptions = {}): Compiler {
+    const candidates = commands(cwd, options);
+    let command = candidates[0];
+    let exec: Exec = { status: null, stdout: "", stderr: "" };
+    for (command of candidates) {
+      const result = spawn.sync(
+        command[0],
+        command.slice(1).concat("--version"),
+        {
+          cwd,
+          env: environment(options),
+        }
+      );
+      exec = {
+        error: result.error,
+        status: result.status,
+        stdout: result.stdout ? result.stdout.toString() : "",
+        stderr: result.stderr ? result.stderr.toString() : "",
+      };
+      if (!failed(exec)) {
+        break;
+      }
+    }
+    return new Compiler(command, checkVersion(command, exec), options);
+  }
+
+  private constructor(
+    command: string[],
+    version: string,
+    options: CompilerOptions
+  ) {
+    this.command = command;
+    this.version = version;
+    this.elmHome = options.elmHome || defaultElmHome();
+    this.timeout = options.timeout || 0;
+  }
+
+  // Cached packages directory
+  get cache(): string {
+    const packages = this.version === "0.19.0" ? "package" : "packages";
+    return path.join(this.elmHome, this.version, packages);
+  }
+
+  // Run a compiler command without blocking the event loop
+  run(args: string[], cwd: string = "."): Promise<Exec> {
+    return run(
+      this.command,
+      args,
+      cwd,
+      environment({ elmHome: this.elmHome }),
+      this.timeout,
+      this.running
+    );
+  }
+
+  // Kill the running commands
+  cancel() {
+    this.running.forEach((kill) => kill("cancelled"));
+  }
+}
+
+function commands(cwd: string, options: CompilerOptions): string[][] {
+  const args = options.args || [];
+  if (options.command) {
+    const command = /[\\/]/.test(options.command)
+      ? path.resolve(cwd, options.command)
+      : options.command;
+    return [[command, ...args]];
+  }
+  return [
+    ["npx", "--no-install", "elm", ...args],
+    ["elm", ...args],
+  ];
+}
+
+function environment(options: CompilerOptions): NodeJS.ProcessEnv {
+  return options.elmHome
+    ? { ...process.env, ELM_HOME: options.elmHome }
+    : process.env;
+}
+
+function defaultElmHome(): string {
+  const dir = os.platform() === "win32" ? "AppData/Roaming/elm" : ".elm";
+  return process.env.ELM_HOME || path.join(os.homedir(), dir);
+}
+
+function failed(exec: Exec): boolean {
+  return exec.error !== undefined || exec.status !== 0 || exec.stderr !== "";
+}
+
+/*
+ * Return the Elm version of the compiler, as output by elm or by
+ * compatible compilers like `lamdera 1.2.1 (elm 0.19.1)`.
+ */
+function checkVersion(command: string[], exec: Exec): string {
+  const name = `${command.join(" ")} --version`;
+  if (exec.error) {
+    throw new ElmError(`cannot run '${name}' (${exec.error})`);
+  } else if (exec.status !== 0) {
+    throw new ElmError(`cannot run '${name}': ${exec.stderr.trim()}`);
+  }
+
+  const output = exec.stdout.trim();
+  const match =
+    output.match(/\belm (\d+\.\d+\.\d+)/i) || output.match(/(\d+\.\d+\.\d+)/);
+  const [major, minor] = match ? match[1].split(".").map(Number) : [0, 0];
+  if (!match || (major === 0 && minor < 19)) {
+    throw new ElmError(`unsupported Elm version ${output}`);
+  }
+  return match[1];
+}
+
+function run(
+  command: string[],
+  args: string[],
+  cwd: string,
+  env: NodeJS.ProcessEnv,
+  timeout: number = 0,
+  running?: Map<ChildProcess, (reason: string) => void>
+): Promise<Exec> {
+  return new Promise((resolve) => {
+    let stdout = "";
+    let stderr = "";
+    let error: globalThis.Error | undefined;
+    const child = spawn(command[0], command.slice(1).concat(args), {
+      cwd,
+      env,
+    });
+    const kill = (reason: string) => {
+      error = new Error(`'${command.join(" ")}' ${reason}`);
+      child.kill();
+    };
+    const timer =
+      timeout > 0
+        ? setTimeout(() => kill(`timed out after ${timeout / 1000}s`), timeout)
+        : null;
+    const done = (exec: Exec) => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      running?.delete(child);
+      resolve(exec);
+    };
+    running?.set(child, kill);
+    child.stdout?.on("data", (data) => (stdout += data));
+    child.stderr?.on("data", (data) => (stderr += data));
+    child.on("error", (err) =>
+      done({ error: err, status: null, stdout, stderr })
+    );
+    child.on("close", (status) => done({ error, status, stdout, stderr }));
+  });
+}
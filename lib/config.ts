@@ -0,0 +1,99 @@
+import fs from "fs";
+import path from "path";
+import { ConfigError } from "./errors.js";
+
+/*
+ * Project settings shared through the repository, from an
+ * elm-doc-preview.json file or an "elm-doc-preview" key in package.json.
+ * Paths are relative to the project directory.
+ */
+export interface Config {
+  port?: number;
+  address?: string;
+  browser?: boolean;
+  reload?: boolean;
+  // extra files to watch and files to ignore, as glob patterns
+  watch?: string[];
+  ignore?: string[];
+  readme?: string;
+  // extra source directories, like vendored packages sources
+  sourceDirectories?: string[];
+  // build applications with placeholders for the missing docs
+  lenient?: boolean;
+  // compile the elm code examples of the docs and README
+  examples?: boolean;
+  // git refs previewed as pseudo-releases
+  refs?: string[];
+  compiler?: string;
+  compilerArgs?: string[];
+  elmHome?: string;
+  // build timeout in seconds
+  timeout?: number;
+}
+
+type Kind = "number" | "string" | "boolean" | "strings";
+
+const settings: Record<keyof Config, Kind> = {
+  port: "number",
+  address: "string",
+  browser: "boolean",
+  reload: "boolean",
+  watch: "strings",
+  ignore: "strings",
+  readme: "string",
+  sourceDirectories: "strings",
+  lenient: "boolean",
+  examples: "boolean",
+  refs: "strings",
+  compiler: "string",
+  compilerArgs: "strings",
+  elmHome: "string",
+  timeout: "number",
+};
+
+export const configFile = "elm-doc-preview.json";
+
+// Read a project configuration, empty if there is none
+export function readConfig(dir: string): Config {
+  const file = path.join(dir, configFile);
+  if (fs.existsSync(file)) {
+    return validate(readJson(file), file);
+  }
+  const pkg = path.join(dir, "package.json");
+  if (fs.existsSync(pkg)) {
+    const config = readJson(pkg)["elm-doc-preview"];
+    if (config !== undefined) {
+      return validate(config, `${pkg} "elm-doc-preview" key`);
+    }
+  }
+  return {};
+}
+
+function readJson(file: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(file).toString());
+  } catch (err) {
+    throw new ConfigError(`cannot read ${file} (${err})`);
+  }
+}
+
+function validate(config: any, source: string): Config {
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new ConfigError(`${source} must be an object`);
+  }
+  Object.entries(config).forEach(([key, value]) => {
+    if (!(key in settings)) {
+      throw new ConfigError(`unknown setting "${key}" in ${source}`);
+    }
+    const kind = settings[key as keyof Config];
+    const valid =
+      kind === "strings"
+        ? Array.isArray(value) && value.every((v) => typeof v === "string")
+        : typeof value === kind;
+    if (!valid) {
+      const expected = kind === "strings" ? "an array of strings" : `a ${kind}`;
+      throw new ConfigError(`"${key}" must be ${expected} in ${source}`);
+    }
+  });
+  return config;
+}
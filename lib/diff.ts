@@ -0,0 +1,198 @@
+import { Module, Union, Alias, Value, Binop } from "./docs.js";
+
+export type Magnitude = "PATCH" | "MINOR" | "MAJOR";
+
+export interface Changes {
+  values: string[];
+  unions: string[];
+  aliases: string[];
+  binops: string[];
+}
+
+export interface ModuleChanges {
+  name: string;
+  magnitude: Magnitude;
+  added: Changes;
+  removed: Changes;
+  changed: Changes;
+}
+
+export interface Diff {
+  from: string;
+  to: string;
+  magnitude: Magnitude;
+  suggestedVersion: string;
+  addedModules: string[];
+  removedModules: string[];
+  changedModules: ModuleChanges[];
+}
+
+type Entry = Union | Alias | Value | Binop;
+
+// Type variables prefixes restricting the types they stand for
+const constrained = /^(number|comparable|appendable|compappend)/;
+
+const kinds: (keyof Changes)[] = ["values", "unions", "aliases", "binops"];
+
+/*
+ * Compute the API changes between two docs.json, following `elm diff` rules:
+ * removing or changing anything is a MAJOR change, adding something is a
+ * MINOR change, and everything else is a PATCH change.
+ */
+export function diffDocs(
+  from: string,
+  oldDocs: Module[],
+  to: string,
+  newDocs: Module[]
+): Diff {
+  const oldModules = new Map(oldDocs.map((m) => [m.name, m]));
+  const newModules = new Map(newDocs.map((m) => [m.name, m]));
+
+  const addedModules = newDocs
+    .map((m) => m.name)
+    .filter((name) => !oldModules.has(name));
+  const removedModules = oldDocs
+    .map((m) => m.name)
+    .filter((name) => !newModules.has(name));
+
+  const changedModules: ModuleChanges[] = [];
+  newDocs.forEach((newModule) => {
+    const oldModule = oldModules.get(newModule.name);
+    if (oldModule) {
+      const changes = diffModule(oldModule, newModule);
+      if (changes.magnitude !== "PATCH") {
+        changedModules.push(changes);
+      }
+    }
+  });
+
+  let magnitude: Magnitude = "PATCH";
+  if (
+    removedModules.length > 0 ||
+    changedModules.some((m) => m.magnitude === "MAJOR")
+  ) {
+    magnitude = "MAJOR";
+  } else if (addedModules.length > 0 || changedModules.length > 0) {
+    magnitude = "MINOR";
+  }
+
+  return {
+    from,
+    to,
+    magnitude,
+    suggestedVersion: bump(from, magnitude),
+    addedModules,
+    removedModules,
+    changedModules,
+  };
+}
+
+export function bump(version: string, magnitude: Magnitude): string {
+  const [major, minor, patch] = version.split(".").map((n) => parseInt(n));
+  switch (magnitude) {
+    case "MAJOR":
+      return `${major + 1}.0.0`;
+    case "MINOR":
+      return `${major}.${minor + 1}.0`;
+    case "PATCH":
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+function diffModule(oldModule: Module, newModule: Module): ModuleChanges {
+  const added = emptyChanges();
+  const removed = emptyChanges();
+  const changed = emptyChanges();
+
+  kinds.forEach((kind) => {
+    const oldEntries = signatures(kind, oldModule[kind]);
+    const newEntries = signatures(kind, newModule[kind]);
+    newEntries.forEach((sig, name) => {
+      if (!oldEntries.has(name)) {
+        added[kind].push(name);
+      } else if (oldEntries.get(name) !== sig) {
+        changed[kind].push(name);
+      }
+    });
+    oldEntries.forEach((_sig, name) => {
+      if (!newEntries.has(name)) {
+        removed[kind].push(name);
+      }
+    });
+  });
+
+  let magnitude: Magnitude = "PATCH";
+  if (count(removed) > 0 || count(changed) > 0) {
+    magnitude = "MAJOR";
+  } else if (count(added) > 0) {
+    magnitude = "MINOR";
+  }
+  return { name: newModule.name, magnitude, added, removed, changed };
+}
+
+function emptyChanges(): Changes {
+  return { values: [], unions: [], aliases: [], binops: [] };
+}
+
+function count(changes: Changes): number {
+  return kinds.reduce((n, kind) => n + changes[kind].length, 0);
+}
+
+function signatures(
+  kind: keyof Changes,
+  entries: Entry[]
+): Map<string, string> {
+  return new Map(entries.map((entry) => [entry.name, signature(kind, entry)]));
+}
+
+// Comparable representation of an entry, ignoring its documentation
+function signature(kind: keyof Changes, entry: Entry): string {
+  switch (kind) {
+    case "unions": {
+      const union = entry as Union;
+      const cases = union.cases.map(([tag, args]) =>
+        [tag, ...args.map((arg) => `(${arg})`)].join(" ")
+      );
+      return normalize(
+        `${union.args.join(" ")} = ${cases.join(" | ")}`,
+        union.args
+      );
+    }
+    case "aliases": {
+      const alias = entry as Alias;
+      return normalize(`${alias.args.join(" ")} = ${alias.type}`, alias.args);
+    }
+    case "binops": {
+      const binop = entry as Binop;
+      return `${normalize(binop.type)} ${binop.associativity} ${
+        binop.precedence
+      }`;
+    }
+    default:
+      return normalize((entry as Value).type);
+  }
+}
+
+/*
+ * Rename type variables by order of appearance, keeping their constraint,
+ * and remove insignificant spaces, so that `a -> b` and `x -> y` are
+ * considered equal but not `a -> a` and `number -> number`.
+ */
+function normalize(tipe: string, args: string[] = []): string {
+  const names = new Map<string, string>();
+  const rename = (name: string) => {
+    if (!names.has(name)) {
+      const constraint = name.match(constrained);
+      names.set(name, `${constraint ? constraint[1] : "t"}${names.size}`);
+    }
+    return names.get(name) as string;
+  };
+  args.forEach(rename);
+  return tipe
+    .replace(
+      /(^|[^.\w])([a-z]\w*)\b(?!\s*:)/g,
+      (_match, prefix: string, name: string) => prefix + rename(name)
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+}
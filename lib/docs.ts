@@ -0,0 +1,44 @@
+/*
+ * Types of the docs.json files generated by `elm make --docs`
+ */
+
+export interface Module {
+  name: string;
+  comment: string;
+  unions: Union[];
+  aliases: Alias[];
+  values: Value[];
+  binops: Binop[];
+}
+
+export interface Union {
+  name: string;
+  comment: string;
+  args: string[];
+  cases: [string, string[]][];
+}
+
+export interface Alias {
+  name: string;
+  comment: string;
+  args: string[];
+  type: string;
+}
+
+export interface Value {
+  name: string;
+  comment: string;
+  type: string;
+}
+
+export interface Binop {
+  name: string;
+  comment: string;
+  type: string;
+  associativity: string;
+  precedence: number;
+}
+
+export function isDocs(output: any): output is Module[] {
+  return Array.isArray(output);
+}
@@ -1,20 +1,57 @@
 import fs from "fs";
+import http from "http";
 import os from "os";
 import path from "path";
 import process from "process";
 import tmp from "tmp";
 import chalk from "chalk";
-import spawn from "cross-spawn";
 import express from "express";
 import serveIndex from "serve-index";
 import expressWs from "express-ws";
 import ws from "ws";
-import { SpawnSyncReturns } from "child_process";
-import { glob, globSync } from "glob";
+import crypto from "crypto";
+import zlib from "zlib";
+import { EventEmitter } from "events";
+import { escape, glob, globSync } from "glob";
 import chokidar from "chokidar";
 import open from "open";
 import { fileURLToPath } from "url";
 import { version } from "./version.js";
+import { Module, isDocs } from "./docs.js";
+import { Builder } from "./builder.js";
+import { Changes, Diff, diffDocs } from "./diff.js";
+import {
+  Finding,
+  Severity,
+  checkDocs,
+  exceeds,
+  missingDocs,
+  severities,
+} from "./check.js";
+import { stubPorts } from "./ports.js";
+import { SymbolIndex } from "./search.js";
+import { PackageIndex, compareVersions, mergePackages } from "./cache.js";
+import { Compiler, CompilerOptions, Exec } from "./compiler.js";
+import { Config, readConfig } from "./config.js";
+import { expandExposedModules, sourceModules, unique } from "./modules.js";
+import {
+  GraphModule,
+  GraphOptions,
+  ModuleGraph,
+  moduleGraph,
+  readImports,
+  toDot,
+} from "./graph.js";
+import { addPlaceholders, countPlaceholders } from "./placeholders.js";
+import { Example, exampleModule, extractExamples } from "./examples.js";
+import { toMarkdown } from "./markdown.js";
+import { addWorktree, removeWorktree, resolveRef, versionTags } from "./git.js";
+import {
+  BuildError,
+  DocServerError,
+  ElmError,
+  ProjectError,
+} from "./errors.js";
 
 import util from "util";
 const readFileAsync = util.promisify(fs.readFile);
@@ -25,13 +62,37 @@ tmp.setGracefulCleanup();
 express.static.mime.define({ "text/plain; charset=UTF-8": ["elm"] });
 express.static.mime.define({ "text/plain; charset=UTF-8": ["md"] });
 
-interface Options {
+// Hot reloading WebSocket messages protocol version
+const protocolVersion = 1;
+
+const staticDir = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../static"
+);
+
+export interface Options {
   address: string;
   debug: boolean;
   dir: string;
+  // build applications with placeholders for the missing docs
+  lenient: boolean;
+  // compile the elm code examples of the docs and README
+  examples: boolean;
   port: number;
   browser: boolean;
   reload: boolean;
+  // compiler executable path or command, and arguments given before its ones
+  compiler?: string;
+  compilerArgs: string[];
+  // compiler cache directory, relative to each project directory
+  elmHome?: string;
+  // build timeout in milliseconds, 0 for none
+  timeout: number;
+  // share on the network, with token access and read-only sources
+  share: boolean;
+  workspace: string[];
+  // git refs previewed as pseudo-releases of the projects
+  refs: string[];
 }
 
 interface Manifest {
@@ -41,17 +102,45 @@ interface Manifest {
   license?: string;
   version?: string;
   "exposed-modules": string[] | Record<string, string[]>;
+  // applications modules not to expose, as exposed-modules patterns
+  "exclude-modules"?: string[];
   "elm-version": string;
   dependencies: Record<string, string> | Record<string, Record<string, string>>;
   "test-dependencies":
     | Record<string, string>
     | Record<string, Record<string, string>>;
   "source-directories"?: string[];
+  // extra documentation pages directory or markdown files patterns
+  docs?: string | string[];
 
   // dynamically added for convenience
   timestamp: number;
 }
 
+interface Project {
+  dir: string;
+  manifest: Manifest | null;
+  builder: Builder<Output>;
+  compiler: Compiler;
+  config: Config;
+  // modules imports, read again after sources changes
+  imports: GraphModule[] | null;
+  // code examples failing to compile with the last docs, null if not verified
+  examples: Finding[] | null;
+  // options with the project configuration
+  options: Options;
+  // previewed git refs, null until resolved
+  revisions: Revision[] | null;
+}
+
+// A git commit previewed as a pseudo-release of a project
+interface Revision {
+  ref: string;
+  hash: string;
+  version: string;
+  timestamp: number;
+}
+
 interface Package {
   name: string;
   summary: string;
@@ -59,8 +148,34 @@ interface Package {
   versions: string[];
 }
 
+interface DocPage {
+  name: string;
+  title: string;
+  content: string;
+}
+
+type DependencyKind = "direct" | "indirect" | "test" | "test-indirect";
+const dependencyKinds: DependencyKind[] = [
+  "direct",
+  "indirect",
+  "test",
+  "test-indirect",
+];
+
+interface Dependency {
+  name: string;
+  kind: DependencyKind;
+  // exact version for applications, null for packages indirect dependencies
+  constraint: string | null;
+  // null if no cached version matches
+  version: string | null;
+  cached: string[];
+  docs: boolean;
+  dependencies: string[];
+  dependents: string[];
+}
+
 type Release = Record<string, number>;
-type Elm = (args: string[], cwd?: string) => SpawnSyncReturns<Buffer>;
 type Output = object | object[];
 
 function info(...args: any[]) {
@@ -75,15 +190,9 @@ function error(...args: any[]) {
   console.log(chalk.red(...args));
 }
 
-function fatal(...args: any[]) {
-  error(...args);
-  chalk.red("Exiting...");
-  process.exit(1);
-}
-
-function elmErrors(error: any) {
+function elmErrors(error: any, buildDir: string) {
   if (error.type === "compile-errors") {
-    console.log(elmErrorWithColor(error.errors));
+    console.log(elmErrorWithColor(error.errors, buildDir));
   }
 }
 
@@ -104,20 +213,17 @@ type Message = {
   string: string;
 };
 
-const elmErrorWithColor = (errors: Error[]) => {
+const elmErrorWithColor = (errors: Error[], buildDir: string) => {
   const repeat = (str: string, num: number, min = 3) =>
     [...Array(num < 0 ? min : num)].map((_) => str).join("");
 
   const errorToString = (error: Error): string => {
     const problemToString = (problem: Problem): string => {
-      // Removing the elm-stuff/generatedFolderName from the beginning of the filepath
-      let errorPath = error.path
-        .substring(process.cwd().length + 1)
-        .split(path.sep);
-      errorPath.shift();
-      errorPath.shift();
-
-      const errorFilePath = errorPath.join(path.sep);
+      // Relative to the project or generated package directory
+      const errorFilePath = path.relative(
+        buildDir,
+        path.resolve(buildDir, error.path)
+      );
 
       return [
         chalk.cyan(
@@ -171,43 +277,6 @@ const elmErrorWithColor = (errors: Error[]) => {
   return errors.map(errorToString).join("\n\n\n");
 };
 
-/*
- * Find and check Elm executable
- */
-function getElm(): [Elm, string] {
-  let elm: Elm = (args, cwd = ".") =>
-    spawn.sync("npx", ["--no-install", "elm"].concat(args), { cwd });
-
-  let exec = elm(["--version"]);
-  if (exec.error || exec.status !== 0 || exec.stderr.toString().length > 0) {
-    elm = (args, cwd = ".") => spawn.sync("elm", args, { cwd });
-    exec = elm(["--version"]);
-  }
-
-  if (exec.error) {
-    fatal(`cannot run 'elm --version' (${exec.error})`);
-  } else if (exec.status !== 0) {
-    error(`cannot run 'elm --version':`);
-    process.stderr.write(exec.stderr);
-    process.exit(exec.status ? exec.status : 1);
-  }
-
-  const version = exec.stdout.toString().trim();
-  if (!version.startsWith("0.19")) {
-    fatal(`unsupported Elm version ${version}`);
-  }
-
-  return [elm, version];
-}
-
-function getElmCache(elmVersion: string) {
-  const dir = os.platform() === "win32" ? "AppData/Roaming/elm" : ".elm";
-  const home = process.env.ELM_HOME || path.join(os.homedir(), dir);
-  const packages = elmVersion === "0.19.0" ? "package" : "packages";
-  const cache = path.join(home, elmVersion, packages);
-  return cache;
-}
-
 async function getManifest(manifestPath: string): Promise<Manifest> {
   return readFileAsync(manifestPath, "utf8")
     .then(async (json) => {
@@ -220,21 +289,29 @@ async function getManifest(manifestPath: string): Promise<Manifest> {
     .catch((err) => error(err));
 }
 
-function getManifestSync(manifestPath: string): Manifest | null {
+function getManifestSync(
+  manifestPath: string,
+  sourceDirectories: string[] = []
+): Manifest | null {
   try {
     const json = fs.readFileSync(manifestPath, "utf8");
     let manifest = JSON.parse(json);
     let stat = fs.statSync(manifestPath);
     manifest["timestamp"] = Math.round(stat.mtime.getTime() / 1000);
-    return completeApplication(manifestPath, manifest);
+    return completeApplication(manifestPath, manifest, sourceDirectories);
   } catch (err) {
     return null;
   }
 }
 
+/*
+ * Add elm-application.json fields and extra source directories to an
+ * application manifest, and expand its exposed-modules patterns
+ */
 function completeApplication(
   manifestPath: string,
-  manifest: Manifest
+  manifest: Manifest,
+  sourceDirectories: string[] = []
 ): Manifest {
   if (manifest.type !== "application") {
     return manifest;
@@ -263,9 +340,156 @@ function completeApplication(
   if (!("license" in manifest)) {
     manifest.license = "Fair";
   }
+  if (sourceDirectories.length > 0) {
+    manifest["source-directories"] = (
+      manifest["source-directories"] || []
+    ).concat(sourceDirectories);
+  }
+  if (manifest["exposed-modules"]) {
+    manifest["exposed-modules"] = expandExposedModules(
+      manifest["exposed-modules"],
+      manifest["exclude-modules"] || [],
+      path.dirname(manifestPath),
+      manifest["source-directories"] || []
+    );
+  }
   return manifest;
 }
 
+function compilerOptions(
+  options: Partial<Options> | undefined,
+  dir: string
+): CompilerOptions {
+  const { compiler, compilerArgs, elmHome, timeout } = options || {};
+  return {
+    command: compiler,
+    args: compilerArgs,
+    elmHome: elmHome && path.resolve(dir, elmHome),
+    timeout,
+  };
+}
+
+// Return why a compiler does not match a project elm-version, if it does not
+function checkElmVersion(
+  manifest: Manifest,
+  compiler: Compiler
+): string | null {
+  const constraint = manifest["elm-version"];
+  if (
+    !constraint ||
+    (manifest.type === "application"
+      ? constraint === compiler.version
+      : satisfies(compiler.version, constraint))
+  ) {
+    return null;
+  }
+  const name = manifest.name || "application";
+  const command = compiler.command.join(" ");
+  return `${name} requires elm ${constraint}, not ${compiler.version} (${command})`;
+}
+
+/*
+ * Options from the configuration file of the options directory, the given
+ * options taking precedence
+ */
+function withConfig(options: Partial<Options> = {}): Partial<Options> {
+  const dir = options.dir || ".";
+  const cwd = fs.lstatSync(dir).isFile() ? path.dirname(dir) : dir;
+  return { ...configOptions(readConfig(cwd)), ...defined(options) };
+}
+
+function configOptions(config: Config): Partial<Options> {
+  const { port, address, browser, reload, compiler, compilerArgs, elmHome } =
+    config;
+  const { lenient, examples, refs, timeout } = config;
+  return defined({
+    port,
+    address,
+    browser,
+    reload,
+    lenient,
+    examples,
+    refs,
+    compiler,
+    compilerArgs,
+    elmHome,
+    timeout: timeout === undefined ? undefined : Math.round(timeout * 1000),
+  });
+}
+
+function defined<T extends object>(object: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(object).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+// Project manifest, with the configured application source directories
+function projectManifest(dir: string, config: Config): Manifest | null {
+  return getManifestSync(path.join(dir, "elm.json"), config.sourceDirectories);
+}
+
+function readmePath(dir: string, config: Config): string {
+  return path.resolve(dir, config.readme || "README.md");
+}
+
+/*
+ * The releases.json entry of a git revision, with its ref name when it is
+ * numbered as a pseudo-version, not named like one
+ */
+function revisionRelease({ ref, version, timestamp }: Revision) {
+  return /^v?\d+\.\d+\.\d+$/.test(ref) && ref.endsWith(version)
+    ? timestamp
+    : { timestamp, ref };
+}
+
+// Cache directory of the docs built from a git revision
+function revisionDir({ dir }: Project, { hash }: Revision): string {
+  return path.resolve(dir, "elm-stuff", "elm-doc-preview", hash);
+}
+
+function readReadme({ dir, config }: Project): string | null {
+  const readme = readmePath(dir, config);
+  return fs.existsSync(readme) ? fs.readFileSync(readme).toString() : null;
+}
+
+/*
+ * Find projects directories from directories, elm.json files or glob patterns
+ */
+function findProjects(patterns: string[]): string[] {
+  const dirs = patterns.flatMap((pattern) =>
+    globSync(pattern, {
+      absolute: true,
+      ignore: ["**/node_modules/**", "**/elm-stuff/**"],
+    })
+      .map((match) =>
+        path.basename(match) === "elm.json" ? path.dirname(match) : match
+      )
+      .filter((dir) => fs.existsSync(path.join(dir, "elm.json")))
+  );
+  return [...new Set(dirs)];
+}
+
+/*
+ * Hash the content of the files a project documentation is built from
+ */
+async function sourcesHash(dir: string, manifest: Manifest): Promise<string> {
+  const patterns = ["elm.json", "elm-application.json"];
+  if (manifest["source-directories"]) {
+    manifest["source-directories"].forEach((src) => {
+      patterns.push(`${src}/**/*.elm`, path.normalize(`${src}/../elm.json`));
+    });
+  } else {
+    patterns.push("src/**/*.elm");
+  }
+  const files = (await glob(patterns, { cwd: dir, nodir: true })).sort();
+  const hash = crypto.createHash("sha1");
+  for (const file of files) {
+    hash.update(file);
+    hash.update(await readFileAsync(path.resolve(dir, file)));
+  }
+  return hash.digest("hex");
+}
+
 function fullname(manifest: Manifest): string {
   return `${manifest.name}/${manifest.version}`;
 }
@@ -315,23 +539,336 @@ async function packageReleases(pattern: string): Promise<Release> {
   return releases;
 }
 
+// Markdown files patterns of the extra documentation pages
+function pagesPatterns(manifest: Manifest): string[] {
+  const docs = manifest.docs || "docs";
+  return (Array.isArray(docs) ? docs : [docs]).map((pattern) =>
+    pattern.endsWith(".md") ? pattern : `${pattern}/*.md`
+  );
+}
+
+/*
+ * Read the extra documentation pages of a project, named after their file
+ * and titled by their first heading
+ */
+async function getPages(dir: string, manifest: Manifest): Promise<DocPage[]> {
+  const files = await glob(pagesPatterns(manifest), { cwd: dir, nodir: true });
+  return Promise.all(
+    files.sort().map(async (file) => {
+      const content = await readFileAsync(path.resolve(dir, file), "utf8");
+      const heading = content.match(/^#\s+(.+)$/m);
+      const name = path.basename(file, path.extname(file));
+      return { name, title: heading ? heading[1].trim() : name, content };
+    })
+  );
+}
+
+// Formats of the packages routes parameters, like elm/core/1.0.5
+const paramFormats: Record<string, RegExp> = {
+  author: /^[A-Za-z0-9-]+$/,
+  project: /^[A-Za-z0-9-]+$/,
+  version: /^\d+\.\d+\.\d+$/,
+  from: /^\d+\.\d+\.\d+$/,
+  to: /^\d+\.\d+\.\d+$/,
+};
+
+// Respond with a JSON error, shown by the client as the problem reason
+function sendError(res: express.Response, status: number, message: string) {
+  if (!res.headersSent) {
+    res.status(status).json({ error: message });
+  }
+}
+
+// Log an unexpected error and respond with it
+function internalError(res: express.Response) {
+  return (err: any) => {
+    error(err);
+    sendError(res, 500, err instanceof Error ? err.message : `${err}`);
+  };
+}
+
+function sendFile(res: express.Response, file: string, what: string) {
+  res.sendFile(file, (err: any) => {
+    if (err && err.statusCode === 404) {
+      sendError(res, 404, `cannot find ${what}`);
+    } else if (err) {
+      internalError(res)(err);
+    }
+  });
+}
+
+/*
+ * Send a large immutable cached file with ETag and Last-Modified validators,
+ * compressed if the client supports it.
+ */
+function sendCachedFile(
+  req: express.Request,
+  res: express.Response,
+  file: string,
+  what: string
+) {
+  fs.stat(file, (err, stat) => {
+    if (err) {
+      sendError(res, 404, `cannot find ${what}`);
+      return;
+    }
+    res.set({
+      ETag: `W/"${stat.size.toString(16)}-${stat.mtime
+        .getTime()
+        .toString(16)}"`,
+      "Last-Modified": stat.mtime.toUTCString(),
+      Vary: "Accept-Encoding",
+    });
+    res.type(path.extname(file));
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+    const stream = fs.createReadStream(file).on("error", internalError(res));
+    if (req.acceptsEncodings("gzip")) {
+      res.set("Content-Encoding", "gzip");
+      stream.pipe(zlib.createGzip()).pipe(res);
+    } else {
+      res.set("Content-Length", `${stat.size}`);
+      stream.pipe(res);
+    }
+  });
+}
+
+/*
+ * Sharing mode access control: requests must use a known host name, come
+ * from the same origin and carry the token, in the URL or in a cookie.
+ */
+type AccessError = [number, string];
+
+function accessError(
+  req: http.IncomingMessage,
+  token: string,
+  hosts: Set<string>
+): AccessError | null {
+  const host = req.headers.host || "";
+  if (!hosts.has(hostname(host))) {
+    return [403, `host ${host} not allowed`];
+  }
+  const origin = req.headers.origin;
+  if (origin && !sameOrigin(origin, host)) {
+    return [403, `origin ${origin} not allowed`];
+  }
+  const given = urlToken(req) || cookies(req)[tokenCookie(host)];
+  if (!given || !sameToken(given, token)) {
+    return [401, "missing or invalid access token, use the shared URL"];
+  }
+  return null;
+}
+
+function hostname(host: string): string {
+  return host
+    .toLowerCase()
+    .replace(/:\d+$/, "")
+    .replace(/^\[(.*)\]$/, "$1");
+}
+
+function sameOrigin(origin: string, host: string): boolean {
+  try {
+    return new URL(origin).host === host.toLowerCase();
+  } catch (err) {
+    return false;
+  }
+}
+
+function urlToken(req: http.IncomingMessage): string | null {
+  return new URL(req.url || "/", "http://localhost").searchParams.get("token");
+}
+
+// Cookies are shared by all the ports of a host, hence the port in the name
+function tokenCookie(host: string): string {
+  const port = host.match(/:(\d+)$/);
+  return `edp_token_${port ? port[1] : "80"}`;
+}
+
+function cookies(req: http.IncomingMessage): Record<string, string> {
+  const result: Record<string, string> = {};
+  (req.headers.cookie || "").split(";").forEach((cookie) => {
+    const i = cookie.indexOf("=");
+    if (i > 0) {
+      result[cookie.slice(0, i).trim()] = cookie.slice(i + 1).trim();
+    }
+  });
+  return result;
+}
+
+function sameToken(given: string, token: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(token);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Names and addresses this machine can be reached with
+function localHosts(address: string): Set<string> {
+  const hosts = ["localhost", "127.0.0.1", "::1", os.hostname()];
+  hosts.push(`${os.hostname()}.local`);
+  Object.values(os.networkInterfaces()).forEach((addresses) =>
+    (addresses || []).forEach((a) => hosts.push(a.address))
+  );
+  if (address !== "0.0.0.0" && address !== "::") {
+    hosts.push(address);
+  }
+  return new Set(hosts.map((host) => host.toLowerCase()));
+}
+
+function shareUrls(port: number, token: string): string[] {
+  const addresses: string[] = [];
+  Object.values(os.networkInterfaces()).forEach((list) =>
+    (list || []).forEach(({ address, family, internal }) => {
+      if (!internal && family === "IPv4") {
+        addresses.push(address);
+      }
+    })
+  );
+  return [os.hostname(), ...addresses].map(
+    (host) => `http://${host}:${port}/?token=${token}`
+  );
+}
+
+/*
+ * Shared source files: elm.json, README and LICENSE at the root, and Elm
+ * files in the source directories. Directories leading to them are listed.
+ */
+function isSharedSource(
+  sourceDirs: string[],
+  relative: string,
+  isDir: boolean
+): boolean {
+  const file = path.posix
+    .normalize(`/${relative}`)
+    .slice(1)
+    .replace(/\/+$/, "");
+  const inside = (dir: string, f: string) =>
+    f === dir || f.startsWith(`${dir}/`);
+  if (file.split("/").some((part) => part.startsWith("."))) {
+    return false;
+  } else if (isDir) {
+    return (
+      file === "" ||
+      sourceDirs.some((dir) => inside(dir, file) || inside(file, dir))
+    );
+  }
+  return (
+    ["elm.json", "README.md", "LICENSE"].includes(file) ||
+    (file.endsWith(".elm") && sourceDirs.some((dir) => inside(dir, file)))
+  );
+}
+
+// Source directories of a project, as imported in applications packages
+function projectSourceDirs(manifest: Manifest): string[] {
+  return manifest.type === "application"
+    ? manifest["source-directories"] || []
+    : ["src"];
+}
+
+// Cached packages are in author/project/version directories
+function isSharedCachedSource(relative: string, isDir: boolean): boolean {
+  const parts = path.posix.normalize(relative).split("/").filter(Boolean);
+  if (parts.length <= 3) {
+    return isDir && !parts.some((part) => part.startsWith("."));
+  }
+  return isSharedSource(["src"], parts.slice(3).join("/"), isDir);
+}
+
+// Serve the shared files of a directory, and a listing of them
+function sharedSource(
+  root: string,
+  isShared: (relative: string, isDir: boolean) => boolean,
+  setHeaders: (res: express.Response, path: string, stat: any) => void
+): express.RequestHandler[] {
+  const allowed = (file: string, isDir: boolean) =>
+    isShared(path.relative(root, file).split(path.sep).join("/"), isDir);
+  return [
+    (req, res, next) => {
+      const file = path.join(root, decodeURIComponent(req.path));
+      fs.stat(file, (err, stat) => {
+        if (!err && allowed(file, stat.isDirectory())) {
+          next();
+        } else {
+          sendError(res, 404, `cannot find ${req.originalUrl}`);
+        }
+      });
+    },
+    express.static(root, { setHeaders: setHeaders, dotfiles: "deny" }),
+    serveIndex(root, {
+      icons: true,
+      filter: (filename, _index, _files, dir) => {
+        const file = path.join(dir || root, filename);
+        try {
+          return allowed(file, fs.statSync(file).isDirectory());
+        } catch (err) {
+          return false;
+        }
+      },
+    }),
+  ];
+}
+
 function merge(objects: object[]): object {
   return objects.reduce((acc, obj) => Object.assign(acc, obj));
 }
 
-function buildDocs(
+/*
+ * Build the documentation of a package or an application directory,
+ * throwing a BuildError with the compiler report if it does not compile.
+ */
+export async function buildDocs(
+  dir: string,
+  options: { debug?: boolean; lenient?: boolean } & CompilerOptions = {}
+): Promise<Module[]> {
+  const manifest = getManifestSync(path.join(dir, "elm.json"));
+  if (!manifest) {
+    throw new ProjectError(`no package or application found in ${dir}`);
+  }
+  const compiler = await Compiler.find(dir, options);
+  const problem = checkElmVersion(manifest, compiler);
+  if (problem) {
+    throw new ElmError(problem);
+  }
+  const docs = await buildProjectDocs(
+    manifest,
+    path.resolve(dir),
+    compiler,
+    !options.debug,
+    false,
+    options.lenient
+  );
+  if (!isDocs(docs)) {
+    throw new BuildError(
+      "failed to build project documentation",
+      docs,
+      path.resolve(dir)
+    );
+  }
+  return docs;
+}
+
+async function buildProjectDocs(
   manifest: Manifest,
   dir: string,
-  elm: Elm,
+  compiler: Compiler,
   clean: boolean = true,
-  verbose: boolean = false
-): Output {
+  verbose: boolean = false,
+  lenient: boolean = false
+): Promise<Output> {
   info(`  |> building ${path.resolve(dir)} documentation`);
   try {
     if (manifest.type == "package") {
-      return buildPackageDocs(dir, elm, clean, verbose);
+      return await buildPackageDocs(dir, compiler, clean, verbose);
     } else if (manifest.type == "application") {
-      return buildApplicationDocs(manifest, dir, elm, clean, verbose);
+      return await buildApplicationDocs(
+        manifest,
+        dir,
+        compiler,
+        clean,
+        verbose,
+        lenient
+      );
     }
   } catch (err) {
     error(err);
@@ -340,25 +877,25 @@ function buildDocs(
 }
 
 // Return a docs.json or a json error report
-function buildPackageDocs(
+async function buildPackageDocs(
   dir: string,
-  elm: Elm,
+  compiler: Compiler,
   clean: boolean,
   verbose: boolean
-): Output {
+): Promise<Output> {
   const tmpFile = tmp.fileSync({ prefix: "elm-docs", postfix: ".json" });
   const buildDir = path.resolve(dir);
   if (!clean) {
     info(`  |> generating ${tmpFile.name} documentation`);
   }
-  const build = elm(
+  const build = await compiler.run(
     ["make", `--docs=${tmpFile.name}`, "--report=json"],
     buildDir
   );
   if (build.error) {
     error(`cannot build documentation (${build.error})`);
   } else if (build.stderr.toString().length > 0 && verbose) {
-    elmErrors(JSON.parse(build.stderr.toString()));
+    elmErrors(JSON.parse(build.stderr.toString()), buildDir);
   }
   let docs;
   try {
@@ -373,7 +910,15 @@ function buildPackageDocs(
         });
       }
     } catch (err) {
-      docs = {};
+      // Report the compiler failure, like a timeout, as an Elm error
+      docs = build.error
+        ? {
+            type: "error",
+            path: null,
+            title: "COMPILER",
+            message: [build.error.message],
+          }
+        : {};
     }
   }
   if (clean) {
@@ -382,13 +927,34 @@ function buildPackageDocs(
   return docs;
 }
 
-function buildApplicationDocs(
+/*
+ * Build the documentation of a cached package in a temporary copy, as the
+ * compiler would otherwise write its elm-stuff in the shared cache.
+ */
+async function buildCachedPackageDocs(
+  dir: string,
+  compiler: Compiler
+): Promise<Output> {
+  const tmpDir = tmp.dirSync({ prefix: "elm-package-", unsafeCleanup: true });
+  try {
+    await fs.promises.cp(dir, tmpDir.name, {
+      recursive: true,
+      filter: (src) => path.basename(src) !== "elm-stuff",
+    });
+    return await buildPackageDocs(tmpDir.name, compiler, true, false);
+  } finally {
+    tmpDir.removeCallback();
+  }
+}
+
+async function buildApplicationDocs(
   manifest: Manifest,
   dir: string,
-  elm: Elm,
+  compiler: Compiler,
   clean: boolean,
-  verbose: boolean
-): Output {
+  verbose: boolean,
+  lenient: boolean
+): Promise<Output> {
   // Build package from application manifest
   const elmStuff = path.resolve(dir, "elm-stuff");
   if (!fs.existsSync(elmStuff)) {
@@ -434,9 +1000,9 @@ function buildApplicationDocs(
 
   if (manifest["source-directories"]) {
     manifest["source-directories"].forEach((src) => {
-      const srcDir = path.resolve(src);
+      const srcDir = path.resolve(dir, src);
       importModules(srcDir, tmpDirSrc);
-      const elmJsonPath = path.resolve(src, "../elm.json");
+      const elmJsonPath = path.resolve(srcDir, "../elm.json");
 
       if (fs.existsSync(elmJsonPath)) {
         try {
@@ -454,11 +1020,18 @@ function buildApplicationDocs(
     });
   }
   pkg["exposed-modules"] = exposedModules;
+  if (lenient) {
+    exposedModules.forEach((name) => documentModule(tmpDirSrc, name));
+  }
 
   // Write elm.json and generate package documentation
   const elmJson = JSON.stringify(pkg);
   fs.writeFileSync(tmpDir.name + "/elm.json", elmJson, "utf8");
-  const docs = buildPackageDocs(tmpDir.name, elm, clean, verbose);
+  const docs = await buildPackageDocs(tmpDir.name, compiler, clean, false);
+  originalPaths(docs, manifest, dir);
+  if (verbose) {
+    elmErrors(docs, dir);
+  }
 
   // remove temporary directory
   if (clean) {
@@ -467,6 +1040,26 @@ function buildApplicationDocs(
   return docs;
 }
 
+/*
+ * Point the errors of a generated application package back to the
+ * application manifest and source files, relative to its directory
+ */
+function originalPaths(report: any, manifest: Manifest, dir: string) {
+  if (report.type === "compile-errors") {
+    report.errors.forEach((error: any) => {
+      const module = path.relative("src", error.path);
+      const original = projectSourceDirs(manifest)
+        .map((src) => path.resolve(dir, src, module))
+        .find((file) => fs.existsSync(file));
+      if (original) {
+        error.path = path.relative(dir, original);
+      }
+    });
+  } else if (report.type === "error" && report.path) {
+    report.path = path.basename(report.path);
+  }
+}
+
 function getExposedModules(
   manifestExposedModules: string[] | Record<string, string[]> | null
 ): string[] {
@@ -484,49 +1077,169 @@ function getExposedModules(
   return exposedModules;
 }
 
-function importModules(srcDir: string, dstDir: string) {
-  globSync("**/*.elm", { cwd: srcDir }).forEach((elm) => {
-    try {
-      const dir = path.resolve(dstDir, path.dirname(elm));
-      mkdirSyncRecursive(path.resolve(dstDir, dir));
-      const srcModulePath = path.resolve(srcDir, elm);
-      const dstModulePath = path.resolve(dstDir, elm);
-      let module = fs.readFileSync(srcModulePath).toString();
-      if (module.match(/^port +module /) !== null) {
-        // Stub ports by subscriptions and commands that do nothing
-        info(`  |> stubbing ${elm} ports`);
-        module = module.replace(
-          /^port +([^ :]+)([^\n]+)$/gm,
-          (match, name, decl, _off, _str) => {
-            if (name === "module") {
-              return ["module", decl].join(" ");
-            } else if (decl.includes("Sub")) {
-              info("  |> stubbing incoming port", name);
-              return name + " " + decl + "\n" + name + " = always Sub.none\n";
-            } else if (decl.includes("Cmd")) {
-              info("  |> stubbing outgoing port", name);
-              return name + " " + decl + "\n" + name + " = always Cmd.none\n";
-            } else {
-              warning("unmatched", match);
-            }
-            return match;
-          }
-        );
-        fs.writeFileSync(dstModulePath, module);
-      } else {
-        linkModule(srcModulePath, dstModulePath);
-      }
-    } catch (err) {
-      error(err);
-    }
+/*
+ * Compile the elm code examples of a documentation and README with the
+ * project modules, returning the failing ones as check findings
+ */
+async function verifyExamples(
+  manifest: Manifest,
+  dir: string,
+  compiler: Compiler,
+  docs: Module[],
+  readme: string | null,
+  clean: boolean = true,
+  verbose: boolean = false
+): Promise<Finding[]> {
+  const examples = extractExamples(docs, readme);
+  if (examples.length === 0) {
+    return [];
+  }
+  info(`  |> verifying ${examples.length} code examples`);
+  const elmStuff = path.resolve(dir, "elm-stuff");
+  if (!fs.existsSync(elmStuff)) {
+    fs.mkdirSync(elmStuff);
+  }
+  const tmpDir = tmp.dirSync({
+    tmpdir: elmStuff,
+    prefix: "elm-examples-",
+    unsafeCleanup: true,
+  });
+  const tmpDirSrc = path.resolve(tmpDir.name, "src");
+  fs.mkdirSync(tmpDirSrc);
+
+  // Same project with the examples modules and a single source directory
+  const elmJson = JSON.parse(
+    fs.readFileSync(path.join(dir, "elm.json")).toString()
+  );
+  if (elmJson.type === "application") {
+    elmJson["source-directories"] = ["src"];
+  }
+  fs.writeFileSync(path.join(tmpDir.name, "elm.json"), JSON.stringify(elmJson));
+  projectSourceDirs(manifest).forEach((src) =>
+    importModules(path.resolve(dir, src), tmpDirSrc)
+  );
+  const exposedModules = getExposedModules(manifest["exposed-modules"]);
+  const files = examples.map((example, i) => {
+    const name = `ElmDocPreviewExample${i}`;
+    const source = exampleModule(example, name, exposedModules);
+    const file = path.join(tmpDirSrc, `${name}.elm`);
+    fs.writeFileSync(file, source);
+    return file;
   });
+
+  const build = await compiler.run(
+    ["make", ...files, "--output=/dev/null", "--report=json"],
+    tmpDir.name
+  );
+  try {
+    return exampleFindings(examples, build, verbose ? tmpDir.name : null);
+  } finally {
+    if (clean) {
+      tmpDir.removeCallback();
+    }
+  }
 }
 
-function mkdirSyncRecursive(dir: string) {
-  const absoluteDir = path.resolve(dir);
-  const sep = path.sep;
-  absoluteDir.split(sep).reduce((parent, child) => {
-    const d = path.resolve(parent, child);
+function exampleFindings(
+  examples: Example[],
+  build: Exec,
+  buildDir: string | null
+): Finding[] {
+  if (build.error) {
+    throw new BuildError(`cannot verify code examples (${build.error})`);
+  } else if (build.status === 0) {
+    return [];
+  }
+  let report;
+  try {
+    report = JSON.parse(build.stderr);
+  } catch (err) {
+    throw new BuildError(`cannot verify code examples: ${build.stderr}`);
+  }
+  if (report.type !== "compile-errors") {
+    throw new BuildError(
+      `cannot verify code examples: ${report.title}`,
+      report
+    );
+  }
+  if (buildDir) {
+    elmErrors(report, buildDir);
+  }
+  return (report.errors as Error[]).flatMap(({ path: file, problems }) => {
+    const match = file.match(/ElmDocPreviewExample(\d+)\.elm$/);
+    const example = match ? examples[Number(match[1])] : null;
+    return problems.map(({ title }) => ({
+      severity: "error" as Severity,
+      rule: "example",
+      module: example ? example.module : file,
+      symbol: example ? example.symbol : undefined,
+      message: `code example does not compile (${title.toLowerCase()})`,
+    }));
+  });
+}
+
+/*
+ * Add placeholder docs to an imported module undocumented exposed values,
+ * replacing its link by a patched copy
+ */
+function documentModule(srcDir: string, name: string) {
+  const modulePath = path.resolve(srcDir, ...name.split(".")) + ".elm";
+  try {
+    const patched = addPlaceholders(fs.readFileSync(modulePath).toString());
+    if (patched === null) {
+      return;
+    }
+    if (patched.moduleDocs) {
+      info(`  |> adding ${name} module docs placeholder`);
+    } else if (patched.docs.length > 0) {
+      info(`  |> adding ${name} @docs`, patched.docs.join(", "));
+    }
+    if (patched.comments.length > 0) {
+      info(
+        `  |> adding ${name} docs placeholders`,
+        patched.comments.join(", ")
+      );
+    }
+    fs.unlinkSync(modulePath);
+    fs.writeFileSync(modulePath, patched.source);
+  } catch (err) {
+    error(err);
+  }
+}
+
+function importModules(srcDir: string, dstDir: string) {
+  globSync("**/*.elm", { cwd: srcDir }).forEach((elm) => {
+    try {
+      const dir = path.resolve(dstDir, path.dirname(elm));
+      mkdirSyncRecursive(path.resolve(dstDir, dir));
+      const srcModulePath = path.resolve(srcDir, elm);
+      const dstModulePath = path.resolve(dstDir, elm);
+      const module = fs.readFileSync(srcModulePath).toString();
+      const stubbed = stubPorts(module);
+      if (stubbed !== null) {
+        // Stub ports by subscriptions and commands that do nothing
+        info(`  |> stubbing ${elm} ports`);
+        stubbed.ports.forEach((port) => {
+          info(`  |> stubbing ${port.direction} port`, port.name);
+        });
+        stubbed.problems.forEach((problem) => {
+          warning(`${srcModulePath}:${problem.line}: ${problem.message}`);
+        });
+        fs.writeFileSync(dstModulePath, stubbed.source);
+      } else {
+        linkModule(srcModulePath, dstModulePath);
+      }
+    } catch (err) {
+      error(err);
+    }
+  });
+}
+
+function mkdirSyncRecursive(dir: string) {
+  const absoluteDir = path.resolve(dir);
+  const sep = path.sep;
+  absoluteDir.split(sep).reduce((parent, child) => {
+    const d = path.resolve(parent, child);
     try {
       if (!fs.existsSync(d)) {
         fs.mkdirSync(d);
@@ -559,138 +1272,813 @@ function versionToConstraint(version: string): string {
   return `${major}.${minor}.${patch} <= v < ${major}.${minor}.${nextPatch}`;
 }
 
-class DocServer {
+// Check a version against a "1.0.0 <= v < 2.0.0" constraint
+function satisfies(version: string, constraint: string): boolean {
+  const match = constraint.match(/^\s*(\S+)\s+(<=?)\s+v\s+(<=?)\s+(\S+)\s*$/);
+  if (!match) {
+    return version === constraint.trim();
+  }
+  const [, lower, lowerOp, upperOp, upper] = match;
+  const low = compareVersions(lower, version);
+  const up = compareVersions(version, upper);
+  return (
+    (lowerOp === "<=" ? low <= 0 : low < 0) &&
+    (upperOp === "<=" ? up <= 0 : up < 0)
+  );
+}
+
+/*
+ * The directory of a package version in a cache, throwing if the name or the
+ * version, which can come from requests, make it escape the cache
+ */
+function packageDir(cache: string, name: string, version: string): string {
+  const dir = path.resolve(cache, name, version);
+  const relative = path.relative(cache, dir);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error(`invalid package ${name} ${version}`);
+  }
+  return dir;
+}
+
+function cachedVersions(elmCache: string, name: string): string[] {
+  try {
+    return fs
+      .readdirSync(path.resolve(elmCache, name))
+      .filter((v) => /^\d+\.\d+\.\d+$/.test(v))
+      .sort(compareVersions);
+  } catch (err) {
+    return [];
+  }
+}
+
+/*
+ * Resolve the direct and indirect dependencies of a project using the
+ * exact versions of applications or the latest cached versions matching
+ * packages constraints.
+ */
+function resolveDependencies(
+  manifest: Manifest,
+  elmCache: string
+): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  const queue: [string, string][] = [];
+
+  if (manifest.type === "application") {
+    const deps = manifest.dependencies as Record<
+      string,
+      Record<string, string>
+    >;
+    Object.assign(resolved, deps.direct || {}, deps.indirect || {});
+    return resolved;
+  }
+
+  const enqueue = (deps: Record<string, string>) => {
+    Object.entries(deps).forEach(([name, constraint]) =>
+      queue.push([name, constraint])
+    );
+  };
+  enqueue(manifest.dependencies as Record<string, string>);
+
+  while (queue.length > 0) {
+    const [name, constraint] = queue.shift() as [string, string];
+    if (name in resolved) {
+      continue;
+    }
+    const version = cachedVersions(elmCache, name)
+      .filter((v) => satisfies(v, constraint))
+      .pop();
+    if (!version) {
+      warning(`no cached version of ${name} matching ${constraint}`);
+      continue;
+    }
+    resolved[name] = version;
+    const depManifest = getManifestSync(
+      path.resolve(elmCache, name, version, "elm.json")
+    );
+    if (depManifest) {
+      enqueue(depManifest.dependencies as Record<string, string>);
+    }
+  }
+  return resolved;
+}
+
+/*
+ * Resolve the dependency tree of a project, with the kind of each
+ * dependency, its cached versions and which packages depend on which.
+ * Packages indirect dependencies only needed by tests are "test-indirect".
+ */
+function dependencyTree(manifest: Manifest, elmCache: string): Dependency[] {
+  const kinds = new Map<string, DependencyKind>();
+  const constraints: Record<string, string> = {};
+  const add = (kind: DependencyKind, deps: Record<string, string> = {}) => {
+    Object.entries(deps).forEach(([name, constraint]) => {
+      if (!kinds.has(name)) {
+        kinds.set(name, kind);
+        constraints[name] = constraint;
+      }
+    });
+  };
+
+  let versions: Record<string, string>;
+  if (manifest.type === "application") {
+    type Deps = Record<string, Record<string, string>>;
+    const deps = manifest.dependencies as Deps;
+    const tests = manifest["test-dependencies"] as Deps;
+    add("direct", deps.direct);
+    add("indirect", deps.indirect);
+    add("test", tests.direct);
+    add("test-indirect", tests.indirect);
+    versions = constraints;
+  } else {
+    add("direct", manifest.dependencies as Record<string, string>);
+    add("test", manifest["test-dependencies"] as Record<string, string>);
+    versions = resolveDependencies(
+      { ...manifest, dependencies: { ...constraints } },
+      elmCache
+    );
+  }
+
+  const edges = new Map<string, string[]>();
+  Object.entries(versions).forEach(([name, version]) => {
+    const depManifest = getManifestSync(
+      path.resolve(elmCache, name, version, "elm.json")
+    );
+    edges.set(name, depManifest ? Object.keys(depManifest.dependencies) : []);
+  });
+
+  const visited = new Set<string>();
+  const queue = [...kinds.keys()].filter(
+    (name) => kinds.get(name) === "direct"
+  );
+  while (queue.length > 0) {
+    const name = queue.shift() as string;
+    if (visited.has(name)) {
+      continue;
+    }
+    visited.add(name);
+    (edges.get(name) || []).forEach((dep) => {
+      if (!kinds.has(dep)) {
+        kinds.set(dep, "indirect");
+      }
+      queue.push(dep);
+    });
+  }
+  Object.keys(versions).forEach((name) => {
+    if (!kinds.has(name)) {
+      kinds.set(name, "test-indirect");
+    }
+  });
+
+  return [...kinds.entries()]
+    .map(([name, kind]) => {
+      const version = versions[name] || null;
+      return {
+        name,
+        kind,
+        constraint: constraints[name] || null,
+        version,
+        cached: cachedVersions(elmCache, name),
+        docs:
+          version !== null &&
+          fs.existsSync(path.resolve(elmCache, name, version, "docs.json")),
+        dependencies: (edges.get(name) || []).sort(),
+        dependents: [...edges.entries()]
+          .filter(([, deps]) => deps.includes(name))
+          .map(([dependent]) => dependent)
+          .sort(),
+      };
+    })
+    .sort(
+      (a, b) =>
+        dependencyKinds.indexOf(a.kind) - dependencyKinds.indexOf(b.kind) ||
+        a.name.localeCompare(b.name)
+    );
+}
+
+function printFinding(finding: Finding) {
+  const location = finding.symbol
+    ? `${finding.module}.${finding.symbol}`
+    : finding.module;
+  const message = `${location}: ${finding.message} (${finding.rule})`;
+  switch (finding.severity) {
+    case "error":
+      error("error  ", message);
+      break;
+    case "warning":
+      warning("warning", message);
+      break;
+    default:
+      info("info   ", message);
+  }
+}
+
+function printDiff(diff: Diff) {
+  info(
+    chalk.bold(`This is a ${diff.magnitude} change`),
+    `(${diff.from} -> ${diff.suggestedVersion})`
+  );
+  const section = (title: string, names: string[]) => {
+    if (names.length > 0) {
+      info(`\n    ${title}:`);
+      names.forEach((name) => info(`        ${name}`));
+    }
+  };
+  section("Added modules", diff.addedModules);
+  section("Removed modules", diff.removedModules);
+  diff.changedModules.forEach((module) => {
+    info(chalk.cyan(`\n---- ${module.name} - ${module.magnitude} ----`));
+    const entries = (changes: Changes) =>
+      Object.values(changes).reduce((acc, names) => acc.concat(names), []);
+    section("Added", entries(module.added));
+    section("Removed", entries(module.removed));
+    section("Changed", entries(module.changed));
+  });
+}
+
+function writeJson(file: string, obj: any) {
+  mkdirSyncRecursive(path.dirname(file));
+  fs.writeFileSync(file, JSON.stringify(obj), "utf8");
+}
+
+/*
+ * Write a package version files with the same layout than the server routes,
+ * adding an index.html for each page so that a plain file server can serve
+ * the application for any URL.
+ */
+function exportPackage(
+  outputDir: string,
+  manifest: Manifest,
+  docs: Output | null,
+  readme: string,
+  docPages: DocPage[] = []
+) {
+  const name = manifest.name as string;
+  const version = manifest.version as string;
+  const pkgDir = path.join(outputDir, "packages", name);
+  const versionDir = path.join(pkgDir, version);
+  const index = path.join(staticDir, "index.html");
+
+  info(`  |> exporting ${name} ${version}`);
+  writeJson(path.join(pkgDir, "releases.json"), {
+    [version]: manifest.timestamp,
+  });
+  writeJson(path.join(versionDir, "elm.json"), manifest);
+  fs.writeFileSync(path.join(versionDir, "README.md"), readme, "utf8");
+
+  // The version pages are also served under latest
+  const versionDirs = [versionDir, path.join(pkgDir, "latest")];
+  const pages = [pkgDir, ...versionDirs];
+  if (docs) {
+    writeJson(path.join(versionDir, "docs.json"), docs);
+    if (Array.isArray(docs)) {
+      docs.forEach((module: any) => {
+        versionDirs.forEach((dir) =>
+          pages.push(path.join(dir, module.name.replace(/\./g, "-")))
+        );
+      });
+    }
+  } else {
+    warning(`missing ${name} ${version} docs.json`);
+  }
+  writeJson(path.join(versionDir, "pages.json"), docPages);
+  docPages.forEach((page) => {
+    const pagesDir = path.join(versionDir, "pages");
+    mkdirSyncRecursive(pagesDir);
+    fs.writeFileSync(path.join(pagesDir, `${page.name}.md`), page.content);
+    versionDirs.forEach((dir) =>
+      pages.push(path.join(dir, "pages", page.name))
+    );
+  });
+  pages.forEach((page) => {
+    mkdirSyncRecursive(page);
+    fs.copyFileSync(index, path.join(page, "index.html"));
+  });
+}
+
+export interface ProjectEvent {
+  name: string;
+  version: string;
+  dir: string;
+}
+
+export type DocServerEvents = {
+  "build-started": [ProjectEvent];
+  "build-succeeded": [ProjectEvent & { duration: number; docs: Module[] }];
+  "build-failed": [ProjectEvent & { duration: number; report: Output }];
+  change: [ProjectEvent & { file: string }];
+  "client-connected": [{ address?: string }];
+  "client-disconnected": [{ address?: string }];
+};
+
+class DocServer extends EventEmitter<DocServerEvents> {
   options: Options;
-  private elm: Elm;
-  private elmVersion: string;
-  private elmCache: string;
+  private compiler: Compiler;
   private app: expressWs.Application;
   private ws: expressWs.Instance;
   private wss: ws.Server;
-  private manifest: Manifest | null;
+  private projects: Project[];
+  private symbols = new SymbolIndex();
+  private symbolsIndexed: Promise<void> | null = null;
+  // packages versions index of each compiler cache
+  private packageIndexes = new Map<string, PackageIndex>();
+  private packagesIndexed: Promise<void> | null = null;
+  // cached packages added or removed since the last notification
+  private changedPackages = new Set<string>();
+  private packagesTimer: NodeJS.Timeout | null = null;
+  private watchedCaches = new Set<string>();
+  private server: http.Server | null = null;
+  private watchers: chokidar.FSWatcher[] = [];
+  // cached packages docs being generated by directory, and git revisions
+  // being built by commit hash
+  private generations = new Map<string, Promise<Output>>();
+  // sharing mode access token and allowed host names
+  readonly token: string | null = null;
+  private hosts = new Set<string>();
+  // options given to the server, taking precedence over projects configuration
+  private explicit: Partial<Options>;
+
+  /*
+   * Create a server, throwing an ElmError if Elm cannot be found.
+   * The options paths are relative to the current working directory.
+   */
+  static async create(options?: Partial<Options>): Promise<DocServer> {
+    const dir = options && options.dir ? options.dir : ".";
+    const cwd = fs.lstatSync(dir).isFile() ? path.dirname(dir) : dir;
+    const compiler = await Compiler.find(
+      cwd,
+      compilerOptions(withConfig(options), cwd)
+    );
+    return new DocServer(options, compiler);
+  }
 
-  constructor(options?: Options) {
+  constructor(options?: Partial<Options>, compiler?: Compiler) {
+    super();
+    this.explicit = defined(options || {});
     const {
-      address = "127.0.0.1",
+      share = false,
+      address = share ? "0.0.0.0" : "127.0.0.1",
       dir = ".",
       port = 8000,
       browser = true,
       reload = true,
       debug = false,
-    } = options || {};
+      lenient = false,
+      examples = false,
+      workspace = [],
+      refs = [],
+      compilerArgs = [],
+      timeout = 0,
+      ...config
+    } = withConfig(options);
     this.options = {
       address,
       browser,
       debug,
+      lenient,
+      examples,
       dir: fs.lstatSync(dir).isFile() ? path.dirname(dir) : path.resolve(dir),
       port,
       reload,
+      share,
+      workspace,
+      refs,
+      compiler: config.compiler,
+      compilerArgs,
+      elmHome: config.elmHome,
+      timeout,
     };
-
-    try {
-      process.chdir(this.options.dir);
-    } catch (err) {
-      error(err);
+    if (share) {
+      this.token = crypto.randomBytes(16).toString("hex");
+      this.hosts = localHosts(address);
     }
 
-    [this.elm, this.elmVersion] = getElm();
-    this.elmCache = getElmCache(this.elmVersion);
+    const dirs =
+      workspace.length > 0 ? findProjects(workspace) : [this.options.dir];
+
+    this.compiler =
+      compiler ||
+      Compiler.findSync(
+        this.options.dir,
+        compilerOptions(this.options, this.options.dir)
+      );
     let app = express();
-    this.ws = expressWs(app);
+    this.ws = expressWs(app, undefined, {
+      wsOptions: {
+        verifyClient: ({ req }, done) => {
+          const denied = this.accessError(req);
+          if (denied) {
+            done(false, ...denied);
+          } else {
+            done(true);
+          }
+        },
+      },
+    });
     this.app = this.ws.app;
     this.wss = this.ws.getWss();
-    this.manifest = getManifestSync("elm.json");
 
     info(
       chalk.bold(`elm-doc-preview ${version}`),
-      `using elm ${this.elmVersion}`
+      `using elm ${this.compiler.version}`,
+      ...(this.options.compiler ? [`(${this.compiler.command.join(" ")})`] : [])
     );
-    if (this.manifest && this.manifest.name && this.manifest.version) {
-      info(
-        "Previewing",
-        chalk.magenta(`${this.manifest.name} ${this.manifest.version}`),
-        `from ${this.options.dir}`
-      );
-    } else {
+    this.projects = dirs
+      .map((dir) => this.createProject(dir))
+      .filter((project) => project.manifest !== null);
+    this.projects.forEach(({ dir, manifest }) => {
+      if (manifest && manifest.name && manifest.version) {
+        info(
+          "Previewing",
+          chalk.magenta(`${manifest.name} ${manifest.version}`),
+          `from ${dir}`
+        );
+      }
+    });
+    this.warnDuplicateProjects();
+    if (this.projects.length === 0) {
       info(
-        `No package or application found in ${this.options.dir},`,
+        `No package or application found in ${
+          workspace.length > 0 ? workspace.join(", ") : this.options.dir
+        },`,
         "running documentation server only"
       );
     }
 
     this.setupWebServer();
-    if (this.manifest && this.options.reload) {
-      this.setupFilesWatcher();
+  }
+
+  private createProject(dir: string): Project {
+    const config = readConfig(dir);
+    const manifest = projectManifest(dir, config);
+    const options = {
+      ...this.options,
+      ...configOptions(config),
+      ...this.explicit,
+    };
+    const compiler =
+      dir === this.options.dir
+        ? this.compiler
+        : Compiler.findSync(dir, compilerOptions(options, dir));
+    const problem = manifest && checkElmVersion(manifest, compiler);
+    if (problem) {
+      warning(problem);
     }
+    const project: Project = {
+      dir: dir,
+      manifest,
+      compiler,
+      config,
+      imports: null,
+      examples: options.examples ? [] : null,
+      options,
+      revisions: null,
+      builder: new Builder<Output>({
+        build: () =>
+          project.manifest
+            ? buildProjectDocs(
+                project.manifest,
+                dir,
+                compiler,
+                !this.options.debug,
+                false,
+                options.lenient
+              )
+            : Promise.resolve({}),
+        hash: () =>
+          project.manifest
+            ? sourcesHash(dir, project.manifest)
+            : Promise.resolve(""),
+        isGood: isDocs,
+        onStart: () => {
+          this.emit("build-started", this.projectEvent(project));
+          this.sendBuild(project);
+        },
+        onBuild: (docs, duration) => {
+          const event = { ...this.projectEvent(project), duration };
+          if (isDocs(docs)) {
+            this.emit("build-succeeded", { ...event, docs });
+          } else {
+            this.emit("build-failed", { ...event, report: docs });
+          }
+          this.sendBuild(project);
+          this.sendDocs(project, docs);
+          if (project.examples) {
+            this.verifyExamples(project);
+          }
+        },
+        onError: (err) => error(err),
+        delay: 200,
+      }),
+    };
+    return project;
+  }
+
+  private projectEvent({ dir, manifest }: Project): ProjectEvent {
+    return {
+      name: (manifest && manifest.name) || "",
+      version: (manifest && manifest.version) || "",
+      dir,
+    };
+  }
+
+  // The first project is the one used by the command line modes
+  private get project(): Project | null {
+    return this.projects.length > 0 ? this.projects[0] : null;
+  }
+
+  /*
+   * Warn about the projects hidden by a previous one with the same name and
+   * version, like applications without a name in elm-application.json
+   */
+  private warnDuplicateProjects() {
+    this.projects.forEach((project) => {
+      const { name, version } = project.manifest as Manifest;
+      const first = this.findProject(name as string, version);
+      if (first && first !== project) {
+        warning(
+          `${name} ${version} from ${project.dir} is hidden by the one from`,
+          `${first.dir}, give them distinct names or versions`
+        );
+      }
+    });
+  }
+
+  private findProject(name: string, version?: string): Project | undefined {
+    return this.projects.find(
+      ({ manifest }) =>
+        manifest &&
+        manifest.name === name &&
+        (version === undefined || manifest.version === version)
+    );
+  }
+
+  // Return why a request is denied in sharing mode, null if allowed
+  private accessError(req: http.IncomingMessage): AccessError | null {
+    return this.token ? accessError(req, this.token, this.hosts) : null;
   }
 
   private setupWebServer() {
-    const filename = fileURLToPath(import.meta.url);
-    const dirname = path.dirname(filename);
+    if (this.token) {
+      this.app.use((req, res, next) => {
+        const denied = this.accessError(req);
+        if (denied) {
+          sendError(res, ...denied);
+        } else if (req.method !== "GET" && req.method !== "HEAD") {
+          sendError(res, 405, "the documentation is read-only");
+        } else if (urlToken(req)) {
+          // Keep the token out of the address bar and history
+          const host = req.headers.host || "";
+          res.cookie(tokenCookie(host), urlToken(req), {
+            httpOnly: true,
+            sameSite: "strict",
+          });
+          const url = new URL(req.originalUrl, "http://localhost");
+          url.searchParams.delete("token");
+          res.redirect(url.pathname + url.search + url.hash);
+        } else {
+          next();
+        }
+      });
+    }
+
+    // Reject the package names and versions that could escape the caches
+    Object.entries(paramFormats).forEach(([param, format]) =>
+      this.app.param(param, (_req, res, next, value) => {
+        if (format.test(String(value))) {
+          next();
+        } else {
+          sendError(res, 400, `invalid ${param} ${value}`);
+        }
+      })
+    );
 
     this.app.use(
       "/",
-      express.static(path.join(dirname, "../static"), {
+      express.static(staticDir, {
         index: "../static/index.html",
       })
     );
 
-    // websockets
+    // websockets, HTTP server errors being rejected by start()
+    this.wss.on("error", () => {});
     this.app.ws("/", (socket, req) => {
-      info(`  |> ${req.socket.remoteAddress} connected`);
+      const address = req.socket.remoteAddress;
+      info(`  |> ${address} connected`);
+      this.emit("client-connected", { address });
+      // Send current state to avoid showing stale documentation
+      this.projects.forEach((project) => {
+        const build = project.builder.lastBuild;
+        this.sendBuild(project, socket);
+        if (build) {
+          this.sendDocs(project, build.result, socket);
+        }
+        this.sendExamples(project, socket);
+      });
       socket.on("close", () => {
         info("  |> client disconnected");
+        this.emit("client-disconnected", { address });
       });
     });
 
     // preview
     this.app.get("/preview", (_req, res) => {
-      if (this.manifest) {
-        res.json(this.manifest);
+      if (this.project && this.project.manifest) {
+        res.json(this.project.manifest);
+      } else {
+        sendError(res, 404, "no package or application previewed");
       }
     });
     // search.json
     this.app.get("/search.json", (_req, res) => {
-      Promise.all(
-        [`${this.elmCache}/*/*/*`, "."].map((pattern) =>
-          searchPackages(pattern)
-        )
-      )
+      const patterns = this.projects.map((project) => escape(project.dir));
+      Promise.all([
+        this.cachedPackages().then((indexes) =>
+          Object.fromEntries(
+            mergePackages(indexes.map((index) => index.list())).map((pkg) => [
+              pkg.name,
+              pkg,
+            ])
+          )
+        ),
+        ...patterns.map((pattern) => searchPackages(pattern)),
+      ])
         .then((packagesArray) => {
-          // add/overwrite cache with project
+          // add/overwrite cache with projects
           res.json(Object.values(merge(packagesArray)));
         })
-        .catch((err) => error(err));
+        .catch(internalError(res));
+    });
+
+    // Symbols search by name or type signature
+    this.app.get("/search/symbols.json", (req, res) => {
+      const query = req.query.q;
+      const limit = parseInt(String(req.query.limit || "50"));
+      if (typeof query !== "string" || isNaN(limit)) {
+        sendError(res, 400, "expected ?q=<query>&limit=<number>");
+        return;
+      }
+      this.searchSymbols(query, limit)
+        .then((results) => res.json(results))
+        .catch(internalError(res));
     });
 
     // releases.json
     this.app.get("/packages/:author/:project/releases.json", (req, res) => {
       const p = req.params;
       const name = `${p.author}/${p.project}`;
-      let dirs = [`${this.elmCache}/${name}/*`];
-      if (this.manifest && this.manifest.name === name) {
-        dirs.push(".");
-      }
-      Promise.all(dirs.map((dir) => packageReleases(dir)))
+      let dirs: string[] = [];
+      this.projects.forEach((project) => {
+        if (project.manifest && project.manifest.name === name) {
+          dirs.push(escape(project.dir));
+        }
+      });
+      const revisions = this.projects
+        .filter(({ manifest }) => manifest && manifest.name === name)
+        .map((project) => this.resolveRevisions(project));
+      Promise.all([
+        this.cachedPackages().then((indexes) =>
+          merge(indexes.map((index) => index.releases(name)))
+        ),
+        ...dirs.map((dir) => packageReleases(dir)),
+        ...revisions.map((resolved) =>
+          resolved.then((list) =>
+            Object.fromEntries(list.map((r) => [r.version, revisionRelease(r)]))
+          )
+        ),
+      ])
         .then((releasesArray) => {
-          // add/overwrite cache with project
-          res.json(merge(releasesArray));
+          // add/overwrite cache with projects and their git revisions
+          const releases = merge(releasesArray);
+          if (Object.keys(releases).length > 0) {
+            res.json(releases);
+          } else {
+            sendError(res, 404, `cannot find ${name} releases`);
+          }
         })
-        .catch((err) => error(err));
+        .catch(internalError(res));
     });
 
+    // API diff between two versions
+    this.app.get(
+      "/packages/:author/:project/diff/:from/:to.json",
+      (req, res) => {
+        const p = req.params;
+        const name = `${p.author}/${p.project}`;
+        Promise.all([this.loadDocs(name, p.from), this.loadDocs(name, p.to)])
+          .then(([oldDocs, newDocs]) => {
+            if (isDocs(oldDocs) && isDocs(newDocs)) {
+              res.json(diffDocs(p.from, oldDocs, p.to, newDocs));
+            } else if (oldDocs && newDocs) {
+              const [version, report] = isDocs(oldDocs)
+                ? [p.to, newDocs]
+                : [p.from, oldDocs];
+              res.status(500).json({
+                error: `${name} ${version} documentation does not compile`,
+                report,
+              });
+            } else {
+              const missing = oldDocs ? p.to : p.from;
+              sendError(res, 404, `cannot find ${name} ${missing} docs`);
+            }
+          })
+          .catch(internalError(res));
+      }
+    );
+
+    // dependencies.json
+    this.app.get(
+      "/packages/:author/:project/:version/dependencies.json",
+      (req, res) => {
+        const p = req.params;
+        const name = `${p.author}/${p.project}`;
+        this.dependenciesManifest(name, p.version)
+          .then(([manifest, cache]) => {
+            if (manifest) {
+              res.json({
+                name,
+                version: p.version,
+                dependencies: dependencyTree(manifest, cache),
+              });
+            } else {
+              sendError(res, 404, `cannot find ${name} ${p.version}`);
+            }
+          })
+          .catch(internalError(res));
+      }
+    );
+
+    // graph.json and graph.dot
+    this.app.get(
+      [
+        "/packages/:author/:project/:version/graph.json",
+        "/packages/:author/:project/:version/graph.dot",
+      ],
+      (req, res) => {
+        const p = req.params;
+        const name = `${p.author}/${p.project}`;
+        const project = this.findProject(name, p.version);
+        if (!project) {
+          sendError(res, 404, `cannot find ${name} ${p.version} project`);
+          return;
+        }
+        const flag = (value: any) =>
+          value !== undefined && value !== "false" && value !== "0";
+        const graph = this.projectGraph(project, {
+          namespaces: flag(req.query.namespaces),
+          exposed: flag(req.query.exposed),
+        });
+        if (req.path.endsWith(".dot")) {
+          res.type("text/vnd.graphviz").send(toDot(graph));
+        } else {
+          res.json(graph);
+        }
+      }
+    );
+
     // docs.json
     this.app.get(
       "/packages/:author/:project/:version/docs.json",
       (req, res) => {
         const p = req.params;
         const name = `${p.author}/${p.project}/${p.version}`;
-        if (this.manifest && fullname(this.manifest) === name) {
-          res.json(
-            buildDocs(this.manifest, ".", this.elm, !this.options.debug)
-          );
+        const project = this.findProject(`${p.author}/${p.project}`, p.version);
+        if (project) {
+          project.builder
+            .get()
+            .then((docs) => res.json(docs))
+            .catch(internalError(res));
         } else {
-          res.sendFile(path.resolve(this.elmCache, name, "docs.json"));
+          const pkg = `${p.author}/${p.project}`;
+          const cache = this.cacheOf(pkg, p.version);
+          const file = path.join(
+            packageDir(cache, pkg, p.version),
+            "docs.json"
+          );
+          if (fs.existsSync(file)) {
+            sendCachedFile(req, res, file, `${name} docs.json`);
+            return;
+          }
+          this.findRevision(pkg, p.version)
+            .then((found) =>
+              found
+                ? this.buildRevision(...found)
+                : this.canGenerateDocs(pkg, p.version)
+                ? this.generateDocs(pkg, p.version)
+                : null
+            )
+            .then((docs) => {
+              if (docs === null || (isDocs(docs) && fs.existsSync(file))) {
+                sendCachedFile(req, res, file, `${name} docs.json`);
+              } else if (isDocs(docs)) {
+                res.json(docs);
+              } else {
+                res.status(500).json({
+                  error: `${pkg} ${p.version} documentation does not compile`,
+                  report: docs,
+                });
+              }
+            })
+            .catch(internalError(res));
         }
       }
     );
@@ -701,23 +2089,100 @@ class DocServer {
       (req, res) => {
         const p = req.params;
         const name = [p.author, p.project, p.version].join("/");
-        if (this.manifest && fullname(this.manifest) === name) {
-          res.sendFile(path.resolve(".", "README.md"));
+        const pkg = `${p.author}/${p.project}`;
+        const project = this.findProject(pkg, p.version);
+        if (project) {
+          sendFile(
+            res,
+            readmePath(project.dir, project.config),
+            `${name} README.md`
+          );
+          return;
+        }
+        this.revisionFile(pkg, p.version, "README.md")
+          .then((file) =>
+            sendFile(
+              res,
+              file ||
+                path.join(
+                  packageDir(this.cacheOf(pkg, p.version), pkg, p.version),
+                  "README.md"
+                ),
+              `${name} README.md`
+            )
+          )
+          .catch(internalError(res));
+      }
+    );
+
+    // Extra documentation pages
+    this.app.get(
+      "/packages/:author/:project/:version/pages.json",
+      (req, res) => {
+        const p = req.params;
+        const project = this.findProject(`${p.author}/${p.project}`, p.version);
+        if (project && project.manifest) {
+          getPages(project.dir, project.manifest)
+            .then((pages) => res.json(pages))
+            .catch(internalError(res));
         } else {
-          res.sendFile(path.resolve(this.elmCache, name, "README.md"));
+          res.json([]);
         }
       }
     );
+    this.app.get(
+      "/packages/:author/:project/:version/pages/:page.md",
+      (req, res) => {
+        const p = req.params;
+        const project = this.findProject(`${p.author}/${p.project}`, p.version);
+        if (!project || !project.manifest) {
+          sendError(res, 404, `cannot find ${p.page} page`);
+          return;
+        }
+        getPages(project.dir, project.manifest)
+          .then((pages) => {
+            const page = pages.find(({ name }) => name === p.page);
+            if (page) {
+              res.type("md").send(page.content);
+            } else {
+              sendError(res, 404, `cannot find ${p.page} page`);
+            }
+          })
+          .catch(internalError(res));
+      }
+    );
 
     // Serve elm.json files
     this.app.get("/packages/:author/:project/:version/elm.json", (req, res) => {
       const p = req.params;
       const name = `${p.author}/${p.project}/${p.version}`;
-      if (this.manifest && fullname(this.manifest) === name) {
-        const manifest = getManifestSync("elm.json");
-        res.json(manifest);
+      const project = this.findProject(`${p.author}/${p.project}`, p.version);
+      if (project) {
+        const manifest = projectManifest(project.dir, project.config);
+        if (manifest) {
+          res.json(manifest);
+        } else {
+          sendError(res, 500, `invalid ${path.join(project.dir, "elm.json")}`);
+        }
       } else {
-        res.sendFile(path.resolve(this.elmCache, name, "elm.json"));
+        this.revisionManifest(`${p.author}/${p.project}`, p.version)
+          .then((manifest) => {
+            if (manifest === undefined) {
+              const pkg = `${p.author}/${p.project}`;
+              const dir = packageDir(
+                this.cacheOf(pkg, p.version),
+                pkg,
+                p.version
+              );
+              const file = path.join(dir, "elm.json");
+              sendFile(res, file, `${name} elm.json`);
+            } else if (manifest) {
+              res.json(manifest);
+            } else {
+              sendError(res, 404, `cannot find ${name} elm.json`);
+            }
+          })
+          .catch(internalError(res));
       }
     });
 
@@ -726,53 +2191,104 @@ class DocServer {
         res.setHeader("Content-Type", "text/plain; charset=UTF-8");
       }
     };
-    // Serve project source
-    if (this.manifest) {
-      this.app.use(
-        `/source/${fullname(this.manifest)}`,
-        express.static(".", { setHeaders: setHeaders }),
-        serveIndex(".", { icons: true })
-      );
-    }
-    // Serve cached packages source
-    this.app.use(
-      "/source",
-      express.static(this.elmCache, { setHeaders: setHeaders }),
-      serveIndex(this.elmCache, { icons: true })
-    );
+    // Serve projects source, only Elm sources and metadata when shared
+    this.projects.forEach(({ dir, manifest }) => {
+      if (manifest && this.token) {
+        // Only the source directories inside the project are shared
+        const sourceDirs = projectSourceDirs(manifest)
+          .map((dir) => path.posix.normalize(dir).replace(/^\.\/|\/+$/g, ""))
+          .filter((dir) => !dir.startsWith(".."));
+        this.app.use(
+          `/source/${fullname(manifest)}`,
+          ...sharedSource(
+            dir,
+            (file, isDir) => isSharedSource(sourceDirs, file, isDir),
+            setHeaders
+          )
+        );
+      } else if (manifest) {
+        this.app.use(
+          `/source/${fullname(manifest)}`,
+          express.static(dir, { setHeaders: setHeaders }),
+          serveIndex(dir, { icons: true })
+        );
+      }
+    });
+    // Serve cached packages source, from the first cache having them
+    this.caches.forEach((cache) => {
+      if (this.token) {
+        this.app.use(
+          "/source",
+          ...sharedSource(cache, isSharedCachedSource, setHeaders)
+        );
+      } else {
+        this.app.use(
+          "/source",
+          express.static(cache, { setHeaders: setHeaders }),
+          serveIndex(cache, { icons: true })
+        );
+      }
+    });
 
     // default route
-    this.app.get("*", (_req, res) => {
-      res.sendFile(path.join(dirname, "../static/index.html"));
+    this.app.get("*", (req, res) => {
+      if (req.path.endsWith(".json")) {
+        sendError(res, 404, `cannot find ${req.path}`);
+      } else {
+        res.sendFile(path.join(staticDir, "index.html"));
+      }
     });
+
+    // errors thrown by routes
+    this.app.use(
+      (
+        err: any,
+        _req: express.Request,
+        res: express.Response,
+        _next: express.NextFunction
+      ) => internalError(res)(err)
+    );
   }
 
-  private setupFilesWatcher() {
+  private setupFilesWatcher(project: Project) {
+    const manifest = project.manifest;
     // We use glob patterns to avoid https://github.com/paulmillr/chokidar/issues/237.
     // We want to watch ["elm.json", "elm-application.json", "README.md"].
     const glob = ["elm*.json", "README*.md"];
-    if (this.manifest && this.manifest["source-directories"]) {
-      this.manifest["source-directories"].forEach((src) => {
+    if (project.config.readme) {
+      glob.push(project.config.readme);
+    }
+    if (manifest) {
+      glob.push(...pagesPatterns(manifest));
+    }
+    if (manifest && manifest["source-directories"]) {
+      manifest["source-directories"].forEach((src) => {
         glob.push(src + "/**/*.elm");
         glob.push(path.normalize(src + "/../elm.json"));
       });
-    } else if (this.manifest) {
+    } else if (manifest) {
       glob.push("src/**/*.elm");
     }
+    glob.push(...(project.config.watch || []));
     const watcher = chokidar.watch(glob, {
-      ignored: ["**/node_modules", "**/elm-stuff", "**/.git"],
+      cwd: project.dir,
+      ignored: ["**/node_modules", "**/elm-stuff", "**/.git"].concat(
+        project.config.ignore || []
+      ),
       ignoreInitial: true,
       atomic: true,
     });
 
+    this.watchers.push(watcher);
     watcher
-      .on("all", (_event, filepath) => this.onChange(filepath))
+      .on("all", (_event, filepath) => this.onChange(project, filepath))
       .on("error", (err) => error(err))
-      .on("ready", () => {
-        if (this.manifest && this.manifest.type === "package") {
-          info(`  |> watching package`);
-        } else if (this.manifest && this.manifest.type === "application") {
-          info(`  |> watching application`);
+      // missing directories patterns can make chokidar ready several times
+      .once("ready", () => {
+        if (manifest && manifest.type === "package") {
+          info(`  |> watching package ${manifest.name}`);
+        } else if (manifest && manifest.type === "application") {
+          info(`  |> watching application ${manifest.name}`);
         }
         if (this.options.debug) {
           info(watcher.getWatched());
@@ -780,27 +2296,86 @@ class DocServer {
       });
   }
 
-  private onChange(filepath: string) {
-    info("  |>", "detected", filepath, "modification");
-    if (filepath == "README.md") {
-      this.sendReadme();
+  private onChange(project: Project, filepath: string) {
+    info("  |>", "detected", path.join(project.dir, filepath), "modification");
+    this.emit("change", { ...this.projectEvent(project), file: filepath });
+    if (
+      path.resolve(project.dir, filepath) ===
+      readmePath(project.dir, project.config)
+    ) {
+      this.sendReadme(project);
+      if (project.examples) {
+        this.verifyExamples(project);
+      }
     } else if (filepath.endsWith(".json")) {
-      this.manifest = getManifestSync("elm.json");
-      this.sendManifest();
-      this.sendDocs();
+      project.imports = null;
+      project.manifest = projectManifest(project.dir, project.config);
+      this.sendManifest(project);
+      this.sendPages(project);
+      project.builder.schedule();
+    } else if (filepath.endsWith(".md")) {
+      this.sendPages(project);
     } else {
-      this.sendDocs();
+      project.imports = null;
+      this.updateExposedModules(project);
+      project.builder.schedule();
     }
   }
 
-  private sendReadme() {
-    const readme = path.join(this.options.dir, "README.md");
-    if (
-      this.manifest &&
-      this.manifest.name &&
-      this.manifest.name.includes("/")
-    ) {
-      const [author, project] = this.manifest.name.split("/", 2);
+  // Expand again application exposed-modules when source modules change
+  private updateExposedModules(project: Project) {
+    const manifest = project.manifest;
+    if (!manifest || manifest.type !== "application") {
+      return;
+    }
+    const updated = projectManifest(project.dir, project.config);
+    const modules = (m: Manifest) => JSON.stringify(m["exposed-modules"]);
+    if (updated && modules(updated) !== modules(manifest)) {
+      info("  |>", "updating exposed modules");
+      project.manifest = updated;
+      this.sendManifest(project);
+    }
+  }
+
+  // Verify the code examples of the last good build and send the failures
+  private verifyExamples(project: Project) {
+    const build = project.builder.lastBuild;
+    if (!project.manifest || !build || !isDocs(build.result)) {
+      return;
+    }
+    verifyExamples(
+      project.manifest,
+      project.dir,
+      project.compiler,
+      build.result,
+      readReadme(project),
+      !this.options.debug
+    )
+      .then((findings) => {
+        findings.forEach(printFinding);
+        project.examples = findings;
+        this.sendExamples(project);
+      })
+      .catch((err) => error(err));
+  }
+
+  private sendExamples({ manifest, examples }: Project, socket?: ws) {
+    if (examples && manifest && manifest.name && manifest.name.includes("/")) {
+      const [author, project] = manifest.name.split("/", 2);
+      this.broadcast(
+        {
+          type: "examples",
+          data: { author, project, version: manifest.version, examples },
+        },
+        socket
+      );
+    }
+  }
+
+  private sendReadme({ dir, manifest, config }: Project) {
+    const readme = readmePath(dir, config);
+    if (manifest && manifest.name && manifest.name.includes("/")) {
+      const [author, project] = manifest.name.split("/", 2);
       try {
         info("  |>", "sending README");
         this.broadcast({
@@ -808,7 +2383,7 @@ class DocServer {
           data: {
             author: author,
             project: project,
-            version: this.manifest.version,
+            version: manifest.version,
             readme: fs.readFileSync(readme).toString(),
           },
         });
@@ -818,107 +2393,914 @@ class DocServer {
     }
   }
 
-  private sendManifest() {
-    if (
-      this.manifest &&
-      this.manifest.name &&
-      this.manifest.name.includes("/")
-    ) {
-      const [author, project] = this.manifest.name.split("/", 2);
+  private sendPages({ dir, manifest }: Project) {
+    if (manifest && manifest.name && manifest.name.includes("/")) {
+      const [author, project] = manifest.name.split("/", 2);
+      getPages(dir, manifest)
+        .then((pages) => {
+          info("  |>", "sending Pages");
+          this.broadcast({
+            type: "pages",
+            data: { author, project, version: manifest.version, pages },
+          });
+        })
+        .catch((err) => error(err));
+    }
+  }
+
+  private sendManifest({ manifest }: Project) {
+    if (manifest && manifest.name && manifest.name.includes("/")) {
+      const [author, project] = manifest.name.split("/", 2);
       info("  |>", "sending Manifest");
       this.broadcast({
         type: "manifest",
         data: {
           author: author,
           project: project,
-          version: this.manifest.version,
-          manifest: this.manifest,
+          version: manifest.version,
+          manifest: manifest,
         },
       });
     }
   }
 
-  private sendDocs() {
-    if (
-      this.manifest &&
-      this.manifest.name &&
-      this.manifest.name.includes("/")
-    ) {
-      const docs = buildDocs(
-        this.manifest,
-        this.options.dir,
-        this.elm,
-        !this.options.debug
-      );
-      const [author, project] = this.manifest.name.split("/", 2);
+  private sendDocs({ manifest }: Project, docs: Output, socket?: ws) {
+    if (manifest && manifest.name && manifest.name.includes("/")) {
+      const [author, project] = manifest.name.split("/", 2);
       info("  |>", "sending Docs");
-      this.broadcast({
-        type: "docs",
-        data: {
-          author: author,
-          project: project,
-          version: this.manifest.version,
-          time: this.manifest.timestamp,
-          docs: docs,
+      this.broadcast(
+        {
+          type: "docs",
+          data: {
+            author: author,
+            project: project,
+            version: manifest.version,
+            time: manifest.timestamp,
+            docs: docs,
+          },
         },
+        socket
+      );
+    }
+  }
+
+  private sendBuild({ manifest, builder }: Project, socket?: ws) {
+    if (manifest && manifest.name && manifest.name.includes("/")) {
+      const [author, project] = manifest.name.split("/", 2);
+      const data = { author, project, version: manifest.version };
+      const build = builder.lastBuild;
+      if (builder.isBuilding) {
+        this.broadcast({ type: "build-started", data }, socket);
+      } else if (build && isDocs(build.result)) {
+        const placeholders = countPlaceholders(build.result);
+        this.broadcast(
+          {
+            type: "build-succeeded",
+            data: { ...data, duration: build.duration, placeholders },
+          },
+          socket
+        );
+      } else if (build) {
+        this.broadcast(
+          {
+            type: "build-failed",
+            data: { ...data, duration: build.duration, report: build.result },
+          },
+          socket
+        );
+      }
+    }
+  }
+
+  /*
+   * Start the server and the files watchers, resolving once listening.
+   * Several servers can run in the same process on different ports.
+   */
+  start(): Promise<http.Server> {
+    return new Promise((resolve, reject) => {
+      const server = this.listen();
+      server
+        .once("listening", () => resolve(server))
+        .once("error", (err) => {
+          this.close().finally(() => reject(err));
+        });
+    });
+  }
+
+  // Release the server, the WebSocket clients and the files watchers
+  async close() {
+    this.projects.forEach(({ builder, compiler }) => {
+      builder.cancel();
+      compiler.cancel();
+    });
+    this.compiler.cancel();
+    if (this.packagesTimer) {
+      clearTimeout(this.packagesTimer);
+      this.packagesTimer = null;
+    }
+    await Promise.all(this.watchers.map((watcher) => watcher.close()));
+    this.watchers = [];
+    this.wss.clients.forEach((client) => client.terminate());
+    const server = this.server;
+    this.server = null;
+    if (server && server.listening) {
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
       });
     }
   }
 
-  listen() {
-    return this.app.listen(this.options.port, this.options.address, () => {
-      if (
-        this.options.browser &&
-        this.manifest &&
-        this.manifest.name &&
-        this.manifest.version
-      ) {
-        open(
-          `http://localhost:${this.options.port}/packages/${this.manifest.name}/${this.manifest.version}/`
+  listen(): http.Server {
+    if (this.options.reload) {
+      this.projects.forEach((project) => this.setupFilesWatcher(project));
+    }
+    this.server = this.app.listen(
+      this.options.port,
+      this.options.address,
+      () => {
+        const manifest = this.project && this.project.manifest;
+        const query = this.token ? `?token=${this.token}` : "";
+        if (
+          this.options.browser &&
+          manifest &&
+          manifest.name &&
+          manifest.version
+        ) {
+          open(
+            `http://localhost:${this.options.port}/packages/${manifest.name}/${manifest.version}/${query}`
+          );
+        } else if (this.options.browser) {
+          open(`http://localhost:${this.options.port}/${query}`);
+        }
+        info(
+          chalk.blue("Browse"),
+          chalk.bold.green(`http://localhost:${this.options.port.toString()}`),
+          chalk.blue("to see your documentation")
         );
-      } else if (this.options.browser) {
-        open(`http://localhost:${this.options.port}`);
+        if (this.token) {
+          info(chalk.blue("Share read-only access with one of:"));
+          shareUrls(this.options.port, this.token).forEach((url) =>
+            info(" ", chalk.bold.green(url))
+          );
+        }
       }
-      info(
-        chalk.blue("Browse"),
-        chalk.bold.green(`http://localhost:${this.options.port.toString()}`),
-        chalk.blue("to see your documentation")
+    );
+    if (!this.packagesIndexed) {
+      this.packagesIndexed = this.indexPackages();
+    }
+    return this.server;
+  }
+
+  // The first project for the command line modes
+  private firstProject(): [Project, Manifest] {
+    const project = this.project;
+    const manifest = project && project.manifest;
+    if (!project || !manifest || !manifest.name || !manifest.version) {
+      throw new ProjectError(
+        `no package or application found in ${this.options.dir}`
+      );
+    }
+    const problem = checkElmVersion(manifest, project.compiler);
+    if (problem) {
+      throw new ElmError(problem);
+    }
+    return [project, manifest];
+  }
+
+  // Build the first project docs for the command line modes
+  private async buildFirstProject(): Promise<[Project, Manifest, Module[]]> {
+    const [project, manifest] = this.firstProject();
+    const docs = await buildProjectDocs(
+      manifest,
+      project.dir,
+      project.compiler,
+      !this.options.debug,
+      true,
+      this.options.lenient
+    );
+    if (!isDocs(docs) || docs.length === 0) {
+      throw new BuildError(
+        "failed to build project documentation",
+        docs,
+        project.dir
+      );
+    }
+    return [project, manifest, docs];
+  }
+
+  async make(filename: string): Promise<Module[]> {
+    const [, , docs] = await this.buildFirstProject();
+    info(`  |> writing documentation into ${filename}`);
+    if (filename !== "/dev/null") {
+      fs.writeFileSync(filename, JSON.stringify(docs), "utf8");
+    }
+    return docs;
+  }
+
+  /*
+   * Write the first project documentation as Markdown files, one per module
+   * and an index.md of the exposed modules.
+   */
+  async markdown(outputDir: string): Promise<Module[]> {
+    const [, manifest, docs] = await this.buildFirstProject();
+    info(`  |> writing Markdown documentation into ${outputDir}`);
+    mkdirSyncRecursive(outputDir);
+    toMarkdown(docs, { ...manifest, name: manifest.name as string }).forEach(
+      (content, file) =>
+        fs.writeFileSync(path.join(outputDir, file), content, "utf8")
+    );
+    return docs;
+  }
+
+  /*
+   * Write the first project modules import graph, as Graphviz DOT for .dot
+   * files and JSON otherwise, warning about import cycles.
+   */
+  async graph(
+    filename: string,
+    options: GraphOptions = {}
+  ): Promise<ModuleGraph> {
+    const project = this.project;
+    if (!project || !project.manifest) {
+      throw new ProjectError(
+        `no package or application found in ${this.options.dir}`
+      );
+    }
+    const graph = this.projectGraph(project, options);
+    graph.cycles.forEach((cycle) =>
+      warning(`import cycle between ${cycle.join(", ")}`)
+    );
+    info(`  |> writing modules graph into ${filename}`);
+    const content = filename.endsWith(".dot")
+      ? toDot(graph)
+      : JSON.stringify(graph);
+    if (filename !== "/dev/null") {
+      fs.writeFileSync(filename, content, "utf8");
+    }
+    return graph;
+  }
+
+  private projectGraph(project: Project, options: GraphOptions): ModuleGraph {
+    const manifest = project.manifest as Manifest;
+    if (project.imports === null) {
+      project.imports = readImports(
+        sourceModules(project.dir, projectSourceDirs(manifest)),
+        getExposedModules(manifest["exposed-modules"])
+      );
+    }
+    return moduleGraph(project.imports, options);
+  }
+
+  /*
+   * Check the first project documentation quality,
+   * returning false if a finding reaches the threshold severity.
+   */
+  async check(
+    threshold: string = "error",
+    reportFile?: string
+  ): Promise<boolean> {
+    if (!severities.includes(threshold as Severity)) {
+      throw new DocServerError(
+        `invalid severity ${threshold} (${severities.join(", ")})`
+      );
+    }
+    const [project, manifest] = this.firstProject();
+    // The compiler refuses to build missing docs, reported as findings
+    let missing: Finding[] = [];
+    const docs = await this.buildFirstProject().then(
+      ([, , docs]) => docs,
+      (err) => {
+        const findings = err instanceof BuildError && missingDocs(err.report);
+        if (!findings) {
+          throw err;
+        }
+        missing = findings;
+        return [];
+      }
+    );
+    info("  |> checking documentation");
+    const readme = readReadme(project);
+    const findings = missing.concat(
+      checkDocs(docs, readme),
+      this.options.examples && missing.length === 0
+        ? await verifyExamples(
+            manifest,
+            project.dir,
+            project.compiler,
+            docs,
+            readme,
+            !this.options.debug,
+            true
+          )
+        : []
+    );
+    findings.forEach(printFinding);
+    info(
+      "  |> check results:",
+      severities
+        .map((s) => `${findings.filter((f) => f.severity === s).length} ${s}`)
+        .join(", ")
+    );
+    if (reportFile) {
+      info(`  |> writing report into ${reportFile}`);
+      fs.writeFileSync(reportFile, JSON.stringify(findings), "utf8");
+    }
+    return !exceeds(findings, threshold as Severity);
+  }
+
+  async diff(from: string): Promise<Diff> {
+    const project = this.project;
+    const name = project && project.manifest && project.manifest.name;
+    const oldDocs = name ? await this.loadDocs(name, from) : null;
+    if (name && !isDocs(oldDocs)) {
+      throw new ProjectError(
+        `cannot find ${name} ${from} docs.json in ${this.cacheOf(name, from)}`
+      );
+    }
+    const [, manifest, newDocs] = await this.buildFirstProject();
+    const diff = diffDocs(
+      from,
+      oldDocs as Module[],
+      manifest.version as string,
+      newDocs
+    );
+    printDiff(diff);
+    return diff;
+  }
+
+  /*
+   * Generate the missing docs of the first project cached dependencies,
+   * returning false if some of them do not compile.
+   */
+  async generateDependenciesDocs(): Promise<boolean> {
+    const project = this.project;
+    const manifest = project && project.manifest;
+    if (!project || !manifest) {
+      throw new ProjectError(
+        `no package or application found in ${this.options.dir}`
       );
+    }
+    const cache = project.compiler.cache;
+    const deps = resolveDependencies(manifest, cache);
+    let failures = 0;
+    let generated = 0;
+    // One at a time as the compiler locks ELM_HOME
+    for (const [name, version] of Object.entries(deps)) {
+      const dir = path.resolve(cache, name, version);
+      if (!fs.existsSync(path.join(dir, "elm.json"))) {
+        warning(`missing ${name} ${version} in ${cache}`);
+      } else if (!fs.existsSync(path.join(dir, "docs.json"))) {
+        if (isDocs(await this.generateDocs(name, version, cache))) {
+          generated++;
+        } else {
+          failures++;
+        }
+      }
+    }
+    info(
+      `  |> generated ${generated} of ${Object.keys(deps).length}`,
+      `dependencies docs, ${failures} failed`
+    );
+    return failures === 0;
+  }
+
+  async export(outputDir: string) {
+    const [project, manifest, docs] = await this.buildFirstProject();
+    info(`  |> exporting documentation into ${outputDir}`);
+
+    const readFile = (file: string) =>
+      fs.existsSync(file) ? fs.readFileSync(file).toString() : "";
+    const packages: Package[] = [];
+    const addPackage = (pkg: Manifest) => {
+      packages.push({
+        name: pkg.name as string,
+        summary: pkg.summary || "",
+        license: pkg.license || "Fair",
+        versions: [pkg.version as string],
+      });
+    };
+
+    fs.cpSync(staticDir, outputDir, { recursive: true });
+    writeJson(path.join(outputDir, "preview"), manifest);
+
+    const readme = readFile(readmePath(project.dir, project.config));
+    const pages = await getPages(project.dir, manifest);
+    exportPackage(outputDir, manifest, docs, readme, pages);
+    addPackage(manifest);
+    const versionDir = path.join(
+      outputDir,
+      "packages",
+      manifest.name as string,
+      manifest.version as string
+    );
+    writeJson(path.join(versionDir, "dependencies.json"), {
+      name: manifest.name,
+      version: manifest.version,
+      dependencies: dependencyTree(manifest, project.compiler.cache),
     });
+    mkdirSyncRecursive(path.join(versionDir, "dependencies"));
+    fs.copyFileSync(
+      path.join(staticDir, "index.html"),
+      path.join(versionDir, "dependencies", "index.html")
+    );
+
+    const cache = project.compiler.cache;
+    const deps = resolveDependencies(manifest, cache);
+    for (const [name, version] of Object.entries(deps)) {
+      const dir = path.resolve(cache, name, version);
+      const depManifest = getManifestSync(path.join(dir, "elm.json"));
+      if (!depManifest) {
+        warning(`missing ${name} ${version} in ${cache}`);
+        continue;
+      }
+      const depDocs = await this.loadDocs(name, version);
+      exportPackage(
+        outputDir,
+        depManifest,
+        isDocs(depDocs) ? depDocs : null,
+        readFile(path.join(dir, "README.md"))
+      );
+      addPackage(depManifest);
+    }
+
+    writeJson(path.join(outputDir, "search.json"), packages);
+    info(`  |> exported ${packages.length} packages`);
   }
 
-  make(filename: string) {
-    if (this.manifest) {
-      const docs = buildDocs(
-        this.manifest,
-        this.options.dir,
-        this.elm,
-        !this.options.debug,
-        true
+  private async searchSymbols(query: string, limit: number) {
+    if (!this.symbolsIndexed) {
+      this.symbolsIndexed = this.indexCache();
+    }
+    await this.symbolsIndexed;
+    // Projects docs override the cached ones
+    await Promise.all(
+      this.projects.map(async ({ manifest, builder }) => {
+        const docs = await builder.get();
+        if (manifest && manifest.name && manifest.version && isDocs(docs)) {
+          this.symbols.set(manifest.name, manifest.version, docs);
+        }
+      })
+    );
+    return this.symbols.search(query, limit);
+  }
+
+  /*
+   * The manifest of a project, git revision or cached package version, with
+   * the cache of its dependencies
+   */
+  private async dependenciesManifest(
+    name: string,
+    version: string
+  ): Promise<[Manifest | null, string]> {
+    const project = this.findProject(name, version);
+    if (project) {
+      return [project.manifest, project.compiler.cache];
+    }
+    const revision = await this.findRevision(name, version);
+    if (revision) {
+      const file = await this.revisionFile(name, version, "elm.json");
+      return [getManifestSync(file as string), revision[0].compiler.cache];
+    }
+    const cache = this.cacheOf(name, version);
+    return [
+      getManifestSync(path.join(packageDir(cache, name, version), "elm.json")),
+      cache,
+    ];
+  }
+
+  // Distinct compiler caches of the projects, the default compiler one first
+  private get caches(): string[] {
+    return unique([
+      this.compiler.cache,
+      ...this.projects.map(({ compiler }) => compiler.cache),
+    ]);
+  }
+
+  // The first cache having a package version, or the default compiler one
+  private cacheOf(name: string, version: string): string {
+    return (
+      this.caches.find((cache) =>
+        fs.existsSync(path.join(packageDir(cache, name, version), "elm.json"))
+      ) || this.compiler.cache
+    );
+  }
+
+  private compilerOf(cache: string): Compiler {
+    const project = this.projects.find(
+      ({ compiler }) => compiler.cache === cache
+    );
+    return project ? project.compiler : this.compiler;
+  }
+
+  private async cachedPackages(): Promise<PackageIndex[]> {
+    if (!this.packagesIndexed) {
+      this.packagesIndexed = this.indexPackages();
+    }
+    await this.packagesIndexed;
+    return Array.from(this.packageIndexes.values());
+  }
+
+  // Index the cached packages versions once, then keep the indexes updated
+  private async indexPackages() {
+    const counts = await Promise.all(
+      this.caches.map((cache) => {
+        const index = new PackageIndex(cache);
+        this.packageIndexes.set(cache, index);
+        return index.load();
+      })
+    );
+    const count = counts.reduce((sum, n) => sum + n, 0);
+    info(`  |> indexed ${count} cached packages versions`);
+    this.watchCaches();
+  }
+
+  // Send the changed packages together, as elm install adds several ones
+  private packageChanged(filepath: string) {
+    this.changedPackages.add(filepath.split(path.sep).slice(0, 2).join("/"));
+    if (this.packagesTimer) {
+      return;
+    }
+    this.packagesTimer = setTimeout(() => {
+      const names = Array.from(this.changedPackages);
+      this.changedPackages.clear();
+      this.packagesTimer = null;
+      info(`  |> cached packages changed:`, names.join(", "));
+      this.broadcast({ type: "packages", data: { names } });
+    }, 500);
+  }
+
+  // Index the latest cached version of each package symbols
+  private async indexCache() {
+    const names = unique(
+      (
+        await Promise.all(
+          this.caches.map((cache) => glob("*/*", { cwd: cache }))
+        )
+      ).flat()
+    );
+    await Promise.all(names.map((name) => this.indexCachedPackage(name)));
+    info(`  |> indexed ${names.length} cached packages symbols`);
+    this.watchCaches();
+  }
+
+  /*
+   * Watch the caches while serving, updating the packages indexes and
+   * notifying the clients of the installed or removed versions, and indexing
+   * again the symbols of the packages with generated docs.
+   */
+  private watchCaches() {
+    if (!this.options.reload || !this.server) {
+      return;
+    }
+    this.caches
+      .filter((cache) => !this.watchedCaches.has(cache))
+      .forEach((cache) => {
+        this.watchedCaches.add(cache);
+        const watcher = chokidar.watch(["*/*/*/elm.json", "*/*/*/docs.json"], {
+          cwd: cache,
+          ignoreInitial: true,
+        });
+        this.watchers.push(watcher);
+        watcher
+          .on("all", (event, filepath) => {
+            const index = this.packageIndexes.get(cache);
+            if (path.basename(filepath) === "docs.json") {
+              if (this.symbolsIndexed) {
+                const name = filepath.split(path.sep).slice(0, 2).join("/");
+                this.indexCachedPackage(name).catch((err) => error(err));
+              }
+            } else if (!index) {
+              return;
+            } else if (event === "unlink") {
+              index.delete(filepath);
+              this.packageChanged(filepath);
+            } else if (event === "add" || event === "change") {
+              index
+                .update(filepath)
+                .then((updated) => updated && this.packageChanged(filepath))
+                .catch((err) => error(err));
+            }
+          })
+          .on("error", (err) => error(err));
+      });
+  }
+
+  private async indexCachedPackage(name: string) {
+    if (this.findProject(name)) {
+      return;
+    }
+    const version = unique(
+      this.caches.flatMap((cache) =>
+        cachedVersions(cache, name).filter((v) =>
+          fs.existsSync(path.resolve(cache, name, v, "docs.json"))
+        )
+      )
+    )
+      .sort(compareVersions)
+      .pop();
+    const docs = version ? await this.loadDocs(name, version) : null;
+    if (version && isDocs(docs)) {
+      this.symbols.set(name, version, docs);
+    } else {
+      this.symbols.delete(name);
+    }
+  }
+
+  // Return the project fresh docs or the cached ones, null if missing
+  private async loadDocs(
+    name: string,
+    version: string
+  ): Promise<Output | null> {
+    const project = this.findProject(name, version);
+    if (project) {
+      return project.builder.latest();
+    }
+    const revision = await this.findRevision(name, version);
+    if (revision) {
+      return this.buildRevision(...revision);
+    }
+    const docs = this.caches
+      .map((cache) => path.join(packageDir(cache, name, version), "docs.json"))
+      .find((file) => fs.existsSync(file));
+    if (docs) {
+      return JSON.parse(await readFileAsync(docs, "utf8"));
+    }
+    return this.canGenerateDocs(name, version)
+      ? this.generateDocs(name, version)
+      : null;
+  }
+
+  /*
+   * Dependencies docs are only generated on request for cached packages, and
+   * not when sharing as requests would then write to the caches
+   */
+  private canGenerateDocs(name: string, version: string): boolean {
+    return !this.token && this.isCached(name, version);
+  }
+
+  private isCached(name: string, version: string): boolean {
+    return this.caches.some((cache) =>
+      fs.existsSync(path.join(packageDir(cache, name, version), "elm.json"))
+    );
+  }
+
+  /*
+   * Generate a cached package docs.json from its sources with the compiler of
+   * its cache, reporting the progress to the clients like projects builds.
+   * Concurrent requests of the same package share the same generation.
+   */
+  private generateDocs(
+    name: string,
+    version: string,
+    cache: string = this.cacheOf(name, version)
+  ): Promise<Output> {
+    const dir = packageDir(cache, name, version);
+    let generation = this.generations.get(dir);
+    if (!generation) {
+      generation = this.writeGeneratedDocs(name, version, cache).finally(() =>
+        this.generations.delete(dir)
       );
-      info(`  |> writing documentation into ${filename}`);
-      if (Array.isArray(docs) && docs.length > 0) {
-        if (filename !== "/dev/null") {
-          try {
-            fs.writeFileSync(filename, JSON.stringify(docs), "utf8");
-          } catch (err) {
-            fatal(err);
+      this.generations.set(dir, generation);
+    }
+    return generation;
+  }
+
+  private async writeGeneratedDocs(
+    name: string,
+    version: string,
+    cache: string
+  ): Promise<Output> {
+    const [author, project] = name.split("/", 2);
+    const data = { author, project, version };
+    const dir = packageDir(cache, name, version);
+    const start = Date.now();
+    info(`  |> generating ${name} ${version} documentation`);
+    this.broadcast({ type: "build-started", data });
+    const docs = await buildCachedPackageDocs(dir, this.compilerOf(cache));
+    const duration = Date.now() - start;
+    if (isDocs(docs)) {
+      // Write then rename to never serve a partial file
+      const tmpFile = path.join(dir, `docs.json.${process.pid}.tmp`);
+      writeJson(tmpFile, docs);
+      fs.renameSync(tmpFile, path.join(dir, "docs.json"));
+      this.broadcast({ type: "build-succeeded", data: { ...data, duration } });
+    } else {
+      error(`cannot generate ${name} ${version} documentation`);
+      this.broadcast({
+        type: "build-failed",
+        data: { ...data, duration, report: docs },
+      });
+    }
+    return docs;
+  }
+
+  /*
+   * Resolve the git refs previewed as pseudo-releases of a project and its
+   * version tags releases, again each time its releases are requested as
+   * branches move and tags are added. Elm packages starting at 1.0.0, the refs
+   * are numbered 0.0.1, 0.0.2... in their order.
+   */
+  private async resolveRevisions(project: Project): Promise<Revision[]> {
+    const previous = project.revisions;
+    const refs = await Promise.all(
+      project.options.refs.map(async (ref, i) => {
+        const commit = await resolveRef(project.dir, ref);
+        const version = `0.0.${i + 1}`;
+        const known = previous && previous.find((r) => r.ref === ref);
+        if (!commit) {
+          if (!previous || known) {
+            warning(`cannot find git ref ${ref} in ${project.dir}`);
           }
+          return null;
+        }
+        if (!known || known.hash !== commit.hash) {
+          info(
+            `  |> previewing ${ref} (${commit.hash.slice(0, 7)})`,
+            `as version ${version}`
+          );
+        }
+        return { ref, version, ...commit };
+      })
+    );
+    const revisions = refs.filter((r): r is Revision => r !== null);
+    // The working copy version is the project itself, and published
+    // versions are served from the cache
+    const { name, version: current } = project.manifest as Manifest;
+    const tags = (await versionTags(project.dir))
+      .filter(
+        ({ version }) =>
+          version !== current &&
+          !this.isCached(name as string, version) &&
+          !revisions.some((r) => r.version === version)
+      )
+      .map(({ tag, ...commit }) => ({ ref: tag, ...commit }));
+    const added = tags.filter(
+      ({ ref }) => !previous || !previous.some((r) => r.ref === ref)
+    );
+    if (added.length > 0) {
+      info(
+        `  |> found ${added.length} release tags in ${project.dir}:`,
+        added.map(({ ref }) => ref).join(", ")
+      );
+    }
+    project.revisions = revisions.concat(tags);
+    return project.revisions;
+  }
+
+  private async findRevision(
+    name: string,
+    version: string
+  ): Promise<[Project, Revision] | null> {
+    for (const project of this.projects) {
+      if (project.manifest && project.manifest.name === name) {
+        const revisions =
+          project.revisions || (await this.resolveRevisions(project));
+        const revision = revisions.find((r) => r.version === version);
+        if (revision) {
+          return [project, revision];
         }
-        process.exit(0);
+      }
+    }
+    return null;
+  }
+
+  // A file of a built git revision, null if the version is not a revision
+  private async revisionFile(
+    name: string,
+    version: string,
+    file: string
+  ): Promise<string | null> {
+    const found = await this.findRevision(name, version);
+    if (!found) {
+      return null;
+    }
+    await this.buildRevision(...found);
+    return path.join(revisionDir(...found), file);
+  }
+
+  /*
+   * The elm.json of a built git revision, with the revision version as refs
+   * can share a commit, null if it does not build and undefined if the
+   * version is not a revision
+   */
+  private async revisionManifest(
+    name: string,
+    version: string
+  ): Promise<Manifest | null | undefined> {
+    const file = await this.revisionFile(name, version, "elm.json");
+    if (file === null) {
+      return undefined;
+    } else if (!fs.existsSync(file)) {
+      return null;
+    }
+    const manifest = JSON.parse(await readFileAsync(file, "utf8"));
+    return { ...manifest, version };
+  }
+
+  /*
+   * Build the docs of a git revision in a temporary worktree, caching them
+   * with its elm.json and README, or its failure report, by commit hash.
+   * Concurrent requests of the same revision share the same build.
+   */
+  private buildRevision(project: Project, revision: Revision): Promise<Output> {
+    const dir = revisionDir(project, revision);
+    const built = ["docs.json", "error.json"]
+      .map((file) => path.join(dir, file))
+      .find((file) => fs.existsSync(file));
+    if (built) {
+      return readFileAsync(built, "utf8").then((docs) => JSON.parse(docs));
+    }
+    let generation = this.generations.get(revision.hash);
+    if (!generation) {
+      generation = this.writeRevisionDocs(project, revision).finally(() =>
+        this.generations.delete(revision.hash)
+      );
+      this.generations.set(revision.hash, generation);
+    }
+    return generation;
+  }
+
+  private async writeRevisionDocs(
+    project: Project,
+    revision: Revision
+  ): Promise<Output> {
+    const { ref, hash, version } = revision;
+    const name = (project.manifest as Manifest).name as string;
+    const [author, projectName] = name.split("/", 2);
+    const data = { author, project: projectName, version };
+    const dir = revisionDir(project, revision);
+    const worktree = tmp.tmpNameSync({ prefix: "elm-doc-preview-" });
+    const start = Date.now();
+    info(`  |> building ${name} ${ref} (${hash.slice(0, 7)}) documentation`);
+    this.broadcast({ type: "build-started", data });
+    let docs: Output;
+    try {
+      const srcDir = await addWorktree(project.dir, hash, worktree);
+      const config = readConfig(srcDir);
+      const manifest = projectManifest(srcDir, config);
+      docs = manifest
+        ? await buildProjectDocs(
+            manifest,
+            srcDir,
+            project.compiler,
+            true,
+            false,
+            project.options.lenient
+          )
+        : {
+            type: "error",
+            path: null,
+            title: "NO PROJECT",
+            message: [`no package or application found in ${ref}`],
+          };
+      if (manifest && isDocs(docs)) {
+        writeJson(path.join(dir, "elm.json"), {
+          ...manifest,
+          timestamp: revision.timestamp,
+        });
+        const readme = readmePath(srcDir, config);
+        if (fs.existsSync(readme)) {
+          fs.copyFileSync(readme, path.join(dir, "README.md"));
+        }
+        // Write docs.json last, as it marks the revision as built
+        const tmpFile = path.join(dir, `docs.json.${process.pid}.tmp`);
+        writeJson(tmpFile, docs);
+        fs.renameSync(tmpFile, path.join(dir, "docs.json"));
       } else {
-        fatal("failed to build project documentation");
+        // A commit does not change, so neither does its failure report
+        writeJson(path.join(dir, "error.json"), docs);
       }
+    } finally {
+      await removeWorktree(project.dir, worktree).catch((err) => error(err));
     }
+    const duration = Date.now() - start;
+    if (isDocs(docs)) {
+      this.broadcast({ type: "build-succeeded", data: { ...data, duration } });
+    } else {
+      error(`cannot build ${name} ${ref} documentation`);
+      this.broadcast({
+        type: "build-failed",
+        data: { ...data, duration, report: docs },
+      });
+    }
+    return docs;
   }
 
-  private broadcast(obj: object) {
-    this.wss.clients.forEach((client) => {
+  // Send a message to a client, or to all of them by default
+  private broadcast(obj: object, socket?: ws) {
+    const message = JSON.stringify({ version: protocolVersion, ...obj });
+    const clients: Iterable<ws> = socket ? [socket] : this.wss.clients;
+    for (const client of clients) {
       if (client.readyState === ws.OPEN) {
-        client.send(JSON.stringify(obj));
+        client.send(message);
       }
-    });
+    }
   }
 }
 
 export default DocServer;
+export * from "./errors.js";
+export * from "./report.js";
+export type { CompilerOptions } from "./compiler.js";
+export { toMarkdown } from "./markdown.js";
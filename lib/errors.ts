@@ -0,0 +1,32 @@
+/*
+ * Errors thrown by the library API instead of exiting the process
+ */
+
+export class DocServerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Elm cannot be run or has an unsupported version
+export class ElmError extends DocServerError {}
+
+// No package or application, or a missing version
+export class ProjectError extends DocServerError {}
+
+// The documentation does not compile, with the compiler JSON report if any
+// and the project directory its paths are relative to
+export class BuildError extends DocServerError {
+  report: object;
+  dir?: string;
+
+  constructor(message: string, report: object = {}, dir?: string) {
+    super(message);
+    this.report = report;
+    this.dir = dir;
+  }
+}
+
+// The configuration file cannot be read or has invalid settings
+export class ConfigError extends DocServerError {}
@@ -0,0 +1,142 @@
+import { Module } from "./docs.js";
+
+export interface Example {
+  // module name or README.md
+  module: string;
+  symbol?: string;
+  code: string;
+}
+
+/*
+ * Extract the ```elm fenced and the indented code blocks of a documentation
+ * comments and README, other fenced blocks being in other languages.
+ */
+export function extractExamples(
+  docs: Module[],
+  readme: string | null
+): Example[] {
+  const examples = docs.flatMap((module) =>
+    [
+      { module: module.name, comment: module.comment },
+      ...[
+        ...module.unions,
+        ...module.aliases,
+        ...module.values,
+        ...module.binops,
+      ].map(({ name, comment }) => ({
+        module: module.name,
+        symbol: name,
+        comment,
+      })),
+    ].flatMap(({ comment, ...location }) =>
+      codeBlocks(comment).map((code) => ({ ...location, code }))
+    )
+  );
+  return examples.concat(
+    codeBlocks(readme || "").map((code) => ({ module: "README.md", code }))
+  );
+}
+
+/*
+ * Wrap an example into a module importing the exposed modules qualified and
+ * the documented module unqualified. Examples without declarations are
+ * expressions, one per line starting on the first column.
+ */
+export function exampleModule(
+  example: Example,
+  name: string,
+  exposedModules: string[]
+): string {
+  const lines = example.code.split("\n");
+  const imports = lines.filter((line) => /^import\s/.test(line));
+  const body = lines
+    .filter((line) => !/^import\s/.test(line))
+    .join("\n")
+    .trim()
+    .split("\n");
+  const declarations = body.some((line) =>
+    /^(type\s|port\s|[a-z]\w*(\s+\w+)*\s*(:(?!:)|=(?!=)))/.test(line)
+  );
+
+  const header = [
+    `module ${name} exposing (..)`,
+    "",
+    ...exposedModules.map((module) =>
+      module === example.module
+        ? `import ${module} exposing (..)`
+        : `import ${module}`
+    ),
+    ...imports,
+    "",
+    "",
+  ];
+  if (declarations) {
+    return header.concat(body).join("\n") + "\n";
+  }
+  const expressions: string[][] = [];
+  body.forEach((line) => {
+    if (/^\S/.test(line) && !line.startsWith("--")) {
+      expressions.push([line]);
+    } else if (expressions.length > 0) {
+      expressions[expressions.length - 1].push(line);
+    }
+  });
+  return (
+    header
+      .concat(
+        expressions.flatMap((expression, i) => [
+          `example${i} =`,
+          ...expression.map((line) => `    ${line}`),
+          "",
+          "",
+        ])
+      )
+      .join("\n")
+      .trimEnd() + "\n"
+  );
+}
+
+/*
+ * The ```elm fenced code blocks and the indented code blocks of a Markdown
+ * text, the indented ones starting after a blank line outside fences
+ */
+function codeBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  const indentation = /^( {4}|\t)/;
+  let fence: { indent: string; elm: boolean; lines: string[] } | null = null;
+  let indented: string[] | null = null;
+  let previous = "";
+  for (const line of markdown.split("\n")) {
+    if (fence) {
+      if (/^\s*```/.test(line)) {
+        if (fence.elm) {
+          blocks.push(fence.lines.join("\n").trimEnd());
+        }
+        fence = null;
+      } else {
+        const { indent } = fence;
+        fence.lines.push(
+          line.startsWith(indent) ? line.slice(indent.length) : line
+        );
+      }
+    } else if (indented && (indentation.test(line) || line.trim() === "")) {
+      indented.push(line.replace(indentation, ""));
+    } else {
+      if (indented) {
+        blocks.push(indented.join("\n").trimEnd());
+        indented = null;
+      }
+      const open = line.match(/^([ \t]*)```(.*)$/);
+      if (open) {
+        fence = { indent: open[1], elm: open[2].trim() === "elm", lines: [] };
+      } else if (indentation.test(line) && previous.trim() === "") {
+        indented = [line.replace(indentation, "")];
+      }
+    }
+    previous = line;
+  }
+  if (indented) {
+    blocks.push(indented.join("\n").trimEnd());
+  }
+  return blocks;
+}
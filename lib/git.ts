@@ -0,0 +1,91 @@
+import fs from "fs";
+import path from "path";
+import util from "util";
+import { execFile } from "child_process";
+
+const execFileAsync = util.promisify(execFile);
+
+export interface Commit {
+  hash: string;
+  // committer date in seconds, like the releases timestamps
+  timestamp: number;
+}
+
+async function git(dir: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, { cwd: dir });
+  return stdout.trim();
+}
+
+// The commit of a git ref (branch, tag or hash), null if not found
+export async function resolveRef(
+  dir: string,
+  ref: string
+): Promise<Commit | null> {
+  try {
+    const hash = await git(dir, [
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      `${ref}^{commit}`,
+    ]);
+    const timestamp = await git(dir, ["show", "-s", "--format=%ct", hash]);
+    return { hash, timestamp: parseInt(timestamp, 10) };
+  } catch (err) {
+    return null;
+  }
+}
+
+/*
+ * Check out a commit in a new worktree, returning the directory of the
+ * project in it, as the project can be in a subdirectory of the repository.
+ */
+export async function addWorktree(
+  dir: string,
+  hash: string,
+  worktree: string
+): Promise<string> {
+  const root = await git(dir, ["rev-parse", "--show-toplevel"]);
+  await git(dir, ["worktree", "add", "--detach", worktree, hash]);
+  return path.join(worktree, path.relative(root, fs.realpathSync(dir)));
+}
+
+export async function removeWorktree(dir: string, worktree: string) {
+  await git(dir, ["worktree", "remove", "--force", worktree]);
+}
+
+/*
+ * The tags named like versions (1.2.3 or v1.2.3), with the commit they point
+ * to, the first one winning when several tags have the same version
+ */
+export async function versionTags(
+  dir: string
+): Promise<(Commit & { tag: string; version: string })[]> {
+  let output: string;
+  try {
+    output = await git(dir, [
+      "for-each-ref",
+      "--format=%(refname:short)\t%(objectname)\t%(committerdate:raw)\t%(*objectname)\t%(*committerdate:raw)",
+      "refs/tags",
+    ]);
+  } catch (err) {
+    return [];
+  }
+  const tags = new Map<string, Commit & { tag: string; version: string }>();
+  output
+    .split("\n")
+    .filter(Boolean)
+    .forEach((line) => {
+      // annotated tags point to a tag object pointing to the commit
+      const [tag, object, date, commit, commitDate] = line.split("\t");
+      const match = tag.match(/^v?(\d+\.\d+\.\d+)$/);
+      if (match && !tags.has(match[1])) {
+        tags.set(match[1], {
+          tag,
+          version: match[1],
+          hash: commit || object,
+          timestamp: parseInt(commit ? commitDate : date, 10),
+        });
+      }
+    });
+  return Array.from(tags.values());
+}
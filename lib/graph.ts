@@ -0,0 +1,176 @@
+import fs from "fs";
+import { mask, topLevelDeclarations } from "./ports.js";
+import { SourceModule, unique } from "./modules.js";
+
+export interface GraphModule {
+  name: string;
+  exposed: boolean;
+  // imported modules of the project
+  imports: string[];
+  // part of an import cycle
+  cycle: boolean;
+}
+
+export interface ModuleGraph {
+  modules: GraphModule[];
+  cycles: string[][];
+}
+
+export interface GraphOptions {
+  // merge modules by top-level namespace, like Page for Page.Home
+  namespaces?: boolean;
+  // only keep the exposed modules and their imports of each other
+  exposed?: boolean;
+}
+
+/*
+ * Read the project modules imports, ignoring the modules from packages
+ */
+export function readImports(
+  modules: SourceModule[],
+  exposed: string[]
+): GraphModule[] {
+  const names = new Set(modules.map(({ name }) => name));
+  return modules
+    .filter(({ name }, i) => modules.findIndex((m) => m.name === name) === i)
+    .map(({ name, file }) => ({
+      name,
+      exposed: exposed.includes(name),
+      imports: unique(moduleImports(file).filter((i) => names.has(i))).sort(),
+      cycle: false,
+    }));
+}
+
+export function moduleGraph(
+  imports: GraphModule[],
+  options: GraphOptions = {}
+): ModuleGraph {
+  let modules = imports.map((module) => ({ ...module }));
+  if (options.exposed) {
+    const exposed = new Set(
+      modules.filter((m) => m.exposed).map((m) => m.name)
+    );
+    modules = modules
+      .filter(({ name }) => exposed.has(name))
+      .map((module) => ({
+        ...module,
+        imports: module.imports.filter((name) => exposed.has(name)),
+      }));
+  }
+  if (options.namespaces) {
+    modules = groupNamespaces(modules);
+  }
+  const cycles = findCycles(modules);
+  const cyclic = new Set(cycles.flat());
+  modules.forEach((module) => (module.cycle = cyclic.has(module.name)));
+  return { modules, cycles };
+}
+
+// Graphviz DOT format, with exposed modules in bold and cycles in red
+export function toDot(graph: ModuleGraph): string {
+  const cycleOf = new Map<string, number>();
+  graph.cycles.forEach((cycle, i) =>
+    cycle.forEach((name) => cycleOf.set(name, i))
+  );
+  const attributes = (attrs: string[]) =>
+    attrs.length > 0 ? ` [${attrs.join(", ")}]` : "";
+  const lines = ["digraph modules {", "  rankdir=LR;", "  node [shape=box];"];
+  graph.modules.forEach(({ name, exposed, cycle }) => {
+    const attrs = [
+      ...(exposed ? ["style=bold"] : []),
+      ...(cycle ? ["color=red"] : []),
+    ];
+    lines.push(`  "${name}"${attributes(attrs)};`);
+  });
+  graph.modules.forEach(({ name, imports }) =>
+    imports.forEach((imported) => {
+      const cycle =
+        cycleOf.has(name) && cycleOf.get(name) === cycleOf.get(imported);
+      const attrs = cycle ? ["color=red"] : [];
+      lines.push(`  "${name}" -> "${imported}"${attributes(attrs)};`);
+    })
+  );
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+function moduleImports(file: string): string[] {
+  const source = mask(fs.readFileSync(file).toString());
+  return topLevelDeclarations(source).flatMap((start) => {
+    const match = source.slice(start).match(/^import\s+([A-Z][\w.]*)/);
+    return match ? [match[1]] : [];
+  });
+}
+
+function groupNamespaces(modules: GraphModule[]): GraphModule[] {
+  const namespace = (name: string) => name.split(".")[0];
+  const groups = new Map<string, GraphModule>();
+  modules.forEach((module) => {
+    const name = namespace(module.name);
+    const group = groups.get(name) || {
+      name,
+      exposed: false,
+      imports: [],
+      cycle: false,
+    };
+    group.exposed = group.exposed || module.exposed;
+    group.imports = unique(
+      group.imports.concat(module.imports.map(namespace))
+    ).filter((imported) => imported !== name);
+    groups.set(name, group);
+  });
+  return Array.from(groups.values())
+    .map((group) => ({ ...group, imports: group.imports.sort() }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/*
+ * Strongly connected components of several modules (Tarjan's algorithm),
+ * which cannot be compiled by Elm
+ */
+function findCycles(modules: GraphModule[]): string[][] {
+  const imports = new Map(modules.map((m) => [m.name, m.imports]));
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (name: string) => {
+    index.set(name, index.size);
+    lowlink.set(name, index.get(name) as number);
+    stack.push(name);
+    (imports.get(name) || []).forEach((imported) => {
+      if (!imports.has(imported)) {
+        return;
+      } else if (!index.has(imported)) {
+        visit(imported);
+        lowlink.set(
+          name,
+          Math.min(lowlink.get(name) as number, lowlink.get(imported) as number)
+        );
+      } else if (stack.includes(imported)) {
+        lowlink.set(
+          name,
+          Math.min(lowlink.get(name) as number, index.get(imported) as number)
+        );
+      }
+    });
+    if (lowlink.get(name) === index.get(name)) {
+      const component: string[] = [];
+      let member;
+      do {
+        member = stack.pop() as string;
+        component.push(member);
+      } while (member !== name);
+      if (component.length > 1 || (imports.get(name) || []).includes(name)) {
+        cycles.push(component.sort());
+      }
+    }
+  };
+  modules.forEach(({ name }) => {
+    if (!index.has(name)) {
+      visit(name);
+    }
+  });
+  return cycles;
+}
@@ -0,0 +1,254 @@
+import { Alias, Binop, Module, Union, Value } from "./docs.js";
+
+// Width above which the type annotations are split on their arguments
+const maxWidth = 64;
+
+// Types exposed by the default imports, shown unqualified like Elm does
+const defaultTypes = new Set([
+  "Basics.Int",
+  "Basics.Float",
+  "Basics.Bool",
+  "Basics.Order",
+  "Basics.Never",
+  "Char.Char",
+  "String.String",
+  "List.List",
+  "Maybe.Maybe",
+  "Result.Result",
+  "Platform.Program",
+  "Platform.Cmd.Cmd",
+  "Platform.Sub.Sub",
+]);
+
+// Manifest fields of the index page
+interface Package {
+  name: string;
+  version?: string;
+  summary?: string;
+  "exposed-modules": string[] | Record<string, string[]>;
+}
+
+type Entry =
+  | { kind: "union"; union: Union }
+  | { kind: "alias"; alias: Alias }
+  | { kind: "value"; value: Value }
+  | { kind: "binop"; binop: Binop };
+
+/*
+ * Convert a documentation into Markdown files, one per module named like the
+ * package website pages (Json-Decode.md) and an index.md listing the modules
+ * with the exposed-modules groups of the manifest.
+ */
+export function toMarkdown(
+  docs: Module[],
+  manifest: Package
+): Map<string, string> {
+  const modules = new Set(docs.map(({ name }) => name));
+  const files = new Map<string, string>();
+  files.set("index.md", indexPage(docs, manifest));
+  docs.forEach((module) =>
+    files.set(moduleFile(module.name), modulePage(module, modules))
+  );
+  return files;
+}
+
+function moduleFile(name: string): string {
+  return `${name.replace(/\./g, "-")}.md`;
+}
+
+function indexPage(docs: Module[], manifest: Package): string {
+  const documented = docs.map(({ name }) => name);
+  const exposed = manifest["exposed-modules"];
+  const listed = Array.isArray(exposed)
+    ? exposed
+    : Object.values(exposed).flat();
+  const others = documented.filter((name) => !listed.includes(name));
+  const groups: [string | null, string[]][] = Array.isArray(exposed)
+    ? [[null, exposed.concat(others)]]
+    : [...Object.entries(exposed), ["Other modules", others]];
+
+  const lines = [
+    `# ${manifest.name}${manifest.version ? ` ${manifest.version}` : ""}`,
+    "",
+  ];
+  if (manifest.summary) {
+    lines.push(manifest.summary, "");
+  }
+  groups.forEach(([group, names]) => {
+    const items = names
+      .filter((name) => documented.includes(name))
+      .map((name) => `- [${name}](${moduleFile(name)})`);
+    if (items.length > 0) {
+      lines.push(...(group ? [`## ${group}`, ""] : []), ...items, "");
+    }
+  });
+  return lines.join("\n");
+}
+
+/*
+ * The module overview, one level below the module title, with its @docs
+ * lines replaced by the documented entries
+ */
+function modulePage(module: Module, modules: Set<string>): string {
+  const entries = new Map<string, Entry>();
+  module.unions.forEach((union) =>
+    entries.set(union.name, { kind: "union", union })
+  );
+  module.aliases.forEach((alias) =>
+    entries.set(alias.name, { kind: "alias", alias })
+  );
+  module.values.forEach((value) =>
+    entries.set(value.name, { kind: "value", value })
+  );
+  module.binops.forEach((binop) =>
+    entries.set(binop.name, { kind: "binop", binop })
+  );
+
+  const overview = outsideCode(module.comment, (line) => {
+    const docs = line.match(/^@docs\s+(.*)$/);
+    if (docs) {
+      return docs[1]
+        .split(",")
+        .map((name) => name.trim().replace(/^\((.*)\)$/, "$1"))
+        .filter((name) => entries.has(name))
+        .map((name) => entryBlock(entries.get(name) as Entry, module.name))
+        .join("\n");
+    }
+    return line.replace(/^(#{1,5})(\s)/, "#$1$2");
+  });
+  return relativeLinks(
+    `# ${module.name}\n\n${overview.trim()}\n`,
+    modules
+  ).replace(/\n{3,}/g, "\n\n");
+}
+
+function entryBlock(entry: Entry, moduleName: string): string {
+  const short = (type: string) => shortType(type, moduleName);
+  let name: string;
+  let comment: string;
+  let code: string;
+  switch (entry.kind) {
+    case "union": {
+      const { union } = entry;
+      name = union.name;
+      comment = union.comment;
+      const head = ["type", union.name, ...union.args].join(" ");
+      code = union.cases
+        .map(
+          ([tag, args], i) =>
+            `    ${i === 0 ? "=" : "|"} ` +
+            [tag, ...args.map((arg) => argument(short(arg)))].join(" ")
+        )
+        .reduce((lines, line) => `${lines}\n${line}`, head);
+      break;
+    }
+    case "alias": {
+      const { alias } = entry;
+      name = alias.name;
+      comment = alias.comment;
+      const head = ["type alias", alias.name, ...alias.args].join(" ");
+      code = `${head} =\n    ${short(alias.type)}`;
+      break;
+    }
+    case "value":
+      name = entry.value.name;
+      comment = entry.value.comment;
+      code = annotation(name, short(entry.value.type));
+      break;
+    case "binop":
+      name = `(${entry.binop.name})`;
+      comment = entry.binop.comment;
+      code = annotation(name, short(entry.binop.type));
+      break;
+  }
+  return [
+    `### ${name}`,
+    "",
+    "```elm",
+    code,
+    "```",
+    "",
+    comment.trim(),
+    "",
+  ].join("\n");
+}
+
+// Elm formatted type annotation, with one argument per line when too long
+function annotation(name: string, type: string): string {
+  const line = `${name} : ${type}`;
+  if (line.length <= maxWidth) {
+    return line;
+  }
+  const [first, ...rest] = topLevelArrows(type);
+  return [`${name} :`, `    ${first}`, ...rest.map((t) => `    -> ${t}`)].join(
+    "\n"
+  );
+}
+
+// Parts of a function type, outside parentheses, records and tuples
+function topLevelArrows(type: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < type.length; i++) {
+    if ("({[".includes(type[i])) {
+      depth++;
+    } else if (")}]".includes(type[i])) {
+      depth--;
+    } else if (depth === 0 && type.startsWith("->", i)) {
+      parts.push(type.slice(start, i).trim());
+      start = i + 2;
+    }
+  }
+  parts.push(type.slice(start).trim());
+  return parts;
+}
+
+// Parenthesize union constructor arguments with several words
+function argument(type: string): string {
+  return /^[\w.]+$/.test(type) || /^[({[]/.test(type) ? type : `(${type})`;
+}
+
+// Unqualify the types of the module and of the default imports
+function shortType(type: string, moduleName: string): string {
+  return type.replace(/\b(?:[A-Z]\w*\.)+[A-Z]\w*/g, (qualified) => {
+    const dot = qualified.lastIndexOf(".");
+    return defaultTypes.has(qualified) || qualified.slice(0, dot) === moduleName
+      ? qualified.slice(dot + 1)
+      : qualified;
+  });
+}
+
+/*
+ * Rewrite the links to other modules pages (Json-Decode#Decoder) as links to
+ * their Markdown files, and the symbols anchors as lowercase heading anchors
+ */
+function relativeLinks(markdown: string, modules: Set<string>): string {
+  return outsideCode(markdown, (line) =>
+    line.replace(
+      /\]\((?:\.\/)?([A-Z][\w-]*)?(#[^)\s]*)?\)/g,
+      (link, page: string | undefined, anchor: string | undefined) => {
+        if (page && !modules.has(page.replace(/-/g, "."))) {
+          return link;
+        }
+        const file = page ? moduleFile(page.replace(/-/g, ".")) : "";
+        return `](${file}${anchor ? anchor.toLowerCase() : ""})`;
+      }
+    )
+  );
+}
+
+// Map the lines of a Markdown text outside its fenced code blocks
+function outsideCode(markdown: string, f: (line: string) => string): string {
+  let fenced = false;
+  return markdown
+    .split("\n")
+    .map((line) => {
+      if (/^\s*```/.test(line)) {
+        fenced = !fenced;
+        return line;
+      }
+      return fenced || /^( {4}|\t)/.test(line) ? line : f(line);
+    })
+    .join("\n");
+}
@@ -0,0 +1,101 @@
+import fs from "fs";
+import path from "path";
+import { globSync } from "glob";
+import { mask, topLevelDeclarations } from "./ports.js";
+
+export type ExposedModules = string[] | Record<string, string[]>;
+
+export interface SourceModule {
+  name: string;
+  file: string;
+}
+
+/*
+ * Expand application exposed-modules patterns, where `*` matches a part of a
+ * module name and `**` one or several parts, like "Api.*" or "Page.**".
+ * "auto" exposes the source directories modules with a module documentation
+ * comment. Modules matching an exclude pattern are removed.
+ */
+export function expandExposedModules(
+  exposed: "auto" | ExposedModules,
+  exclude: string[],
+  dir: string,
+  sourceDirs: string[]
+): ExposedModules {
+  let found: SourceModule[] | null = null;
+  const modules = () => (found = found || sourceModules(dir, sourceDirs));
+  const included = (name: string) =>
+    !exclude.some((pattern) => matches(pattern, name));
+  const expand = (patterns: string[]) =>
+    unique(
+      patterns.flatMap((pattern) =>
+        pattern.includes("*")
+          ? modules()
+              .map(({ name }) => name)
+              .filter((name) => matches(pattern, name))
+          : [pattern]
+      )
+    ).filter(included);
+
+  if (exposed === "auto") {
+    return modules()
+      .filter(({ name, file }) => included(name) && hasModuleDocs(file))
+      .map(({ name }) => name);
+  } else if (Array.isArray(exposed)) {
+    return expand(exposed);
+  }
+  return Object.fromEntries(
+    Object.entries(exposed).map(([category, patterns]) => [
+      category,
+      expand(patterns),
+    ])
+  );
+}
+
+// Modules of source directories, sorted by name
+export function sourceModules(
+  dir: string,
+  sourceDirs: string[]
+): SourceModule[] {
+  const modules = sourceDirs.flatMap((src) => {
+    const srcDir = path.resolve(dir, src);
+    return globSync("**/*.elm", { cwd: srcDir })
+      .map((file) => ({
+        name: file.slice(0, -".elm".length).split(path.sep).join("."),
+        file: path.join(srcDir, file),
+      }))
+      .filter(({ name }) => /^[A-Z]\w*(\.[A-Z]\w*)*$/.test(name));
+  });
+  return modules.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function matches(pattern: string, name: string): boolean {
+  const parts = pattern.split(".").map((part) =>
+    part === "**"
+      ? "[A-Z]\\w*(?:\\.[A-Z]\\w*)*"
+      : part
+          .split("*")
+          .map((s) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+          .join("\\w*")
+  );
+  return new RegExp(`^${parts.join("\\.")}$`).test(name);
+}
+
+// The module documentation comment follows the module declaration
+function hasModuleDocs(file: string): boolean {
+  try {
+    const source = fs.readFileSync(file).toString();
+    const declarations = topLevelDeclarations(mask(source));
+    return source
+      .slice(declarations[0], declarations[1])
+      .replace(/--.*$/gm, "")
+      .includes("{-|");
+  } catch (err) {
+    return false;
+  }
+}
+
+// The items without their duplicates, in their first occurrence order
+export function unique<T>(items: T[]): T[] {
+  return items.filter((item, i) => items.indexOf(item) === i);
+}
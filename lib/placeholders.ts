@@ -0,0 +1,200 @@
+import { Module } from "./docs.js";
+import { Edit, applyEdits, mask, topLevelDeclarations } from "./ports.js";
+
+// Comment of the placeholder docs, shown as undocumented by the client
+export const placeholder = "Undocumented (elm-doc-preview placeholder)";
+
+export interface PatchedModule {
+  source: string;
+  // the module documentation comment was missing
+  moduleDocs: boolean;
+  // exposed names given a placeholder comment or added to @docs
+  comments: string[];
+  docs: string[];
+}
+
+/*
+ * Add placeholder documentation comments to the undocumented exposed values
+ * and types of a module, and the missing @docs entries to its documentation,
+ * so that it can be part of a package documentation.
+ * Return null if the module is already documented or cannot be parsed.
+ */
+export function addPlaceholders(source: string): PatchedModule | null {
+  const masked = mask(source);
+  const declarations = topLevelDeclarations(masked);
+  const header =
+    declarations.length > 0
+      ? masked
+          .slice(declarations[0])
+          .match(
+            /^(?:port\s+|effect\s+)?module\s+[\w.]+\s+(?:where\s*\{[^}]*\}\s*)?exposing\s*\(/
+          )
+      : null;
+  const open = header ? declarations[0] + header[0].length - 1 : -1;
+  const close = header ? closingParen(masked, open) : -1;
+  if (close === -1) {
+    return null;
+  }
+
+  const definitions = definedNames(masked, declarations);
+  const items = exposedItems(masked.slice(open + 1, close));
+  const exposed = items.includes("..")
+    ? Array.from(definitions.keys())
+    : items.filter((name) => definitions.has(name));
+  const moduleDocs = moduleComment(source, close + 1);
+
+  const edits: Edit[] = [];
+  let docs: string[] = [];
+  if (!moduleDocs) {
+    const text = `\n\n{-| ${placeholder}\n\n@docs ${exposed.join(", ")}\n\n-}`;
+    edits.push({ start: close + 1, end: close + 1, text });
+  } else {
+    const comment = source.slice(moduleDocs.start, moduleDocs.end);
+    const listed = Array.from(comment.matchAll(/^@docs\s+(.*)$/gm)).flatMap(
+      (match) => match[1].split(",").map((name) => name.trim())
+    );
+    docs = exposed.filter((name) => !listed.includes(name));
+    if (docs.length > 0) {
+      const end = moduleDocs.end - "-}".length;
+      const text = `\n@docs ${docs.join(", ")}\n\n`;
+      edits.push({ start: end, end, text });
+    }
+  }
+
+  const comments = exposed.filter((name) => {
+    const [previous, start] = definitions.get(name) as [number, number];
+    const before = source.slice(previous, start).trimEnd();
+    const documented =
+      /\{-\|(?:(?!-\})[\s\S])*-\}$/.test(before) &&
+      !(moduleDocs && previous + before.length === moduleDocs.end);
+    if (!documented) {
+      edits.push({ start, end: start, text: `{-| ${placeholder} -}\n` });
+    }
+    return !documented;
+  });
+
+  if (edits.length === 0) {
+    return null;
+  }
+  return {
+    source: applyEdits(source, edits),
+    moduleDocs: !moduleDocs,
+    comments,
+    docs,
+  };
+}
+
+// Count the placeholder comments of a documentation
+export function countPlaceholders(docs: Module[]): number {
+  return docs
+    .flatMap((module) => [
+      ...module.values,
+      ...module.unions,
+      ...module.aliases,
+      ...module.binops,
+    ])
+    .filter(({ comment }) => comment.trim() === placeholder).length;
+}
+
+function closingParen(masked: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    if (masked[i] === "(") {
+      depth++;
+    } else if (masked[i] === ")" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Exposed values and types names, without constructors and operators
+function exposedItems(exposing: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let item = "";
+  for (const c of exposing + ",") {
+    if (c === "," && depth === 0) {
+      items.push(item.trim());
+      item = "";
+      continue;
+    } else if (c === "(") {
+      depth++;
+    } else if (c === ")") {
+      depth--;
+    }
+    item += c;
+  }
+  return items
+    .map((name) => name.replace(/\s*\(\s*\.\.\s*\)$/, ""))
+    .filter((name) => name === ".." || /^[A-Za-z]\w*$/.test(name));
+}
+
+/*
+ * Top-level values and types, with the start of the previous declaration
+ * and of their first declaration (the type annotation of values)
+ */
+function definedNames(
+  masked: string,
+  declarations: number[]
+): Map<string, [number, number]> {
+  const names = new Map<string, [number, number]>();
+  declarations.forEach((start, i) => {
+    const match = masked
+      .slice(start)
+      .match(/^(?:type\s+(?:alias\s+)?([A-Z]\w*)|([a-z]\w*)\b)/);
+    const name = match && (match[1] || match[2]);
+    if (
+      i > 0 &&
+      name &&
+      !["import", "port", "infix", "module", "effect"].includes(name) &&
+      !names.has(name)
+    ) {
+      names.set(name, [declarations[i - 1], start]);
+    }
+  });
+  return names;
+}
+
+// The documentation comment following the module declaration, if any
+function moduleComment(
+  source: string,
+  from: number
+): { start: number; end: number } | null {
+  let i = from;
+  while (i < source.length) {
+    if (/\s/.test(source[i])) {
+      i++;
+    } else if (source.startsWith("--", i)) {
+      const eol = source.indexOf("\n", i);
+      i = eol === -1 ? source.length : eol;
+    } else if (source.startsWith("{-", i)) {
+      const end = commentEnd(source, i);
+      if (source.startsWith("{-|", i)) {
+        return { start: i, end };
+      }
+      i = end;
+    } else {
+      break;
+    }
+  }
+  return null;
+}
+
+// Block comments can be nested
+function commentEnd(source: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  do {
+    if (source.startsWith("{-", i)) {
+      depth++;
+      i += 2;
+    } else if (source.startsWith("-}", i)) {
+      depth--;
+      i += 2;
+    } else {
+      i++;
+    }
+  } while (depth > 0 && i < source.length);
+  return i;
+}
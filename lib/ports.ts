@@ -0,0 +1,205 @@
+export interface Port {
+  name: string;
+  direction: "incoming" | "outgoing";
+  line: number;
+}
+
+export interface PortProblem {
+  name: string;
+  line: number;
+  message: string;
+}
+
+export interface StubbedModule {
+  source: string;
+  ports: Port[];
+  problems: PortProblem[];
+}
+
+export interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/*
+ * Replace the ports of a port module by subscriptions and commands that do
+ * nothing, so that the module can be part of a package.
+ * Return null if the source is not a port module.
+ */
+export function stubPorts(source: string): StubbedModule | null {
+  const masked = mask(source);
+  const declarations = topLevelDeclarations(masked);
+  if (declarations.length === 0) {
+    return null;
+  }
+  const portModule = masked
+    .slice(declarations[0])
+    .match(/^port\s+(?=module\b)/);
+  if (!portModule) {
+    return null;
+  }
+
+  const edits: Edit[] = [
+    {
+      start: declarations[0],
+      end: declarations[0] + portModule[0].length,
+      text: "",
+    },
+  ];
+  const ports: Port[] = [];
+  const problems: PortProblem[] = [];
+
+  declarations.slice(1).forEach((start, i) => {
+    const end =
+      i + 2 < declarations.length ? declarations[i + 2] : masked.length;
+    const declaration = masked.slice(start, end);
+    const keyword = declaration.match(/^port\s+/);
+    if (!keyword) {
+      return;
+    }
+    const line = lineNumber(source, start);
+    const match = declaration.match(/^port\s+([a-z]\w*)\s*:([\s\S]*)$/);
+    if (!match) {
+      problems.push({
+        name: "",
+        line,
+        message: "cannot parse port declaration",
+      });
+      return;
+    }
+    const [, name, type] = match;
+    const kind = resultType(type);
+    if (kind !== "Sub" && kind !== "Cmd") {
+      problems.push({
+        name,
+        line,
+        message: `port ${name} must return a Sub or a Cmd`,
+      });
+      return;
+    }
+
+    // Insert the stub after the line ending the type annotation
+    const last = start + declaration.trimEnd().length;
+    const eol = source.indexOf("\n", last);
+    const stub = `\n${name} =\n    always ${kind}.none\n`;
+    edits.push({ start, end: start + keyword[0].length, text: "" });
+    if (eol === -1) {
+      edits.push({ start: source.length, end: source.length, text: stub });
+    } else {
+      edits.push({ start: eol + 1, end: eol + 1, text: stub.slice(1) + "\n" });
+    }
+    ports.push({
+      name,
+      direction: kind === "Sub" ? "incoming" : "outgoing",
+      line,
+    });
+  });
+
+  return { source: applyEdits(source, edits), ports, problems };
+}
+
+/*
+ * Replace comments and literals by spaces, keeping newlines so that
+ * positions and layout are the same than in the source.
+ */
+export function mask(source: string): string {
+  const chars = source.split("");
+  const blank = (start: number, end: number) => {
+    for (let i = start; i < end && i < chars.length; i++) {
+      if (chars[i] !== "\n") {
+        chars[i] = " ";
+      }
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith("--", i)) {
+      const end = source.indexOf("\n", i);
+      const stop = end === -1 ? source.length : end;
+      blank(i, stop);
+      i = stop;
+    } else if (source.startsWith("{-", i)) {
+      // block comments can be nested
+      let depth = 0;
+      let j = i;
+      do {
+        if (source.startsWith("{-", j)) {
+          depth++;
+          j += 2;
+        } else if (source.startsWith("-}", j)) {
+          depth--;
+          j += 2;
+        } else {
+          j++;
+        }
+      } while (depth > 0 && j < source.length);
+      blank(i, j);
+      i = j;
+    } else if (source.startsWith('"""', i)) {
+      const end = source.indexOf('"""', i + 3);
+      const stop = end === -1 ? source.length : end + 3;
+      blank(i, stop);
+      i = stop;
+    } else if (source[i] === '"' || source[i] === "'") {
+      const quote = source[i];
+      let j = i + 1;
+      while (j < source.length && source[j] !== quote && source[j] !== "\n") {
+        j += source[j] === "\\" ? 2 : 1;
+      }
+      blank(i, j + 1);
+      i = j + 1;
+    } else {
+      i++;
+    }
+  }
+  return chars.join("");
+}
+
+// Top-level declarations start on the first column (Elm layout rule)
+export function topLevelDeclarations(masked: string): number[] {
+  const starts: number[] = [];
+  let offset = 0;
+  masked.split("\n").forEach((line) => {
+    if (/^\S/.test(line)) {
+      starts.push(offset);
+    }
+    offset += line.length + 1;
+  });
+  return starts;
+}
+
+// Return the head of the type returned by a function type, like "Sub"
+function resultType(type: string): string | null {
+  let depth = 0;
+  let result = 0;
+  for (let i = 0; i < type.length; i++) {
+    const c = type[i];
+    if (c === "(" || c === "{" || c === "[") {
+      depth++;
+    } else if (c === ")" || c === "}" || c === "]") {
+      depth--;
+    } else if (depth === 0 && type.startsWith("->", i)) {
+      result = i + 2;
+    }
+  }
+  const head = type
+    .slice(result)
+    .trim()
+    .match(/^(?:[A-Z]\w*\.)*([A-Z]\w*)/);
+  return head ? head[1] : null;
+}
+
+function lineNumber(source: string, position: number): number {
+  return source.slice(0, position).split("\n").length;
+}
+
+export function applyEdits(source: string, edits: Edit[]): string {
+  return edits
+    .sort((a, b) => b.start - a.start || b.end - a.end)
+    .reduce(
+      (acc, edit) => acc.slice(0, edit.start) + edit.text + acc.slice(edit.end),
+      source
+    );
+}
@@ -0,0 +1,157 @@
+import path from "path";
+import { BuildError, ProjectError } from "./errors.js";
+
+export type ReportFormat = "json" | "github" | "compact";
+
+export type DiagnosticKind = "compile" | "docs" | "manifest" | "error";
+
+export interface Diagnostic {
+  kind: DiagnosticKind;
+  // relative to the working directory, null for project wide errors
+  file: string | null;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  title: string;
+  message: string;
+}
+
+export const reportFormats: ReportFormat[] = ["json", "github", "compact"];
+
+// Exit status of the command line when a diagnostic of a kind is reported
+export const exitCodes: Record<DiagnosticKind, number> = {
+  error: 1,
+  compile: 2,
+  docs: 3,
+  manifest: 4,
+};
+
+// Titles of the compiler documentation errors
+const docsTitles = [
+  "NO DOCS",
+  "IMPLICIT EXPOSING",
+  "DOCS MISTAKE",
+  "DUPLICATE DOCS",
+  "PROBLEM IN DOCS",
+  "NO TYPE ANNOTATION",
+];
+
+/*
+ * Diagnostics of a failed build, from the compiler JSON report of a
+ * BuildError or from the error message
+ */
+export function diagnostics(err: unknown): Diagnostic[] {
+  const message = err instanceof Error ? err.message : String(err);
+  if (err instanceof ProjectError) {
+    return [{ kind: "manifest", file: null, title: "PROJECT", message }];
+  } else if (!(err instanceof BuildError)) {
+    return [{ kind: "error", file: null, title: "ERROR", message }];
+  }
+  const report: any = err.report;
+  if (report.type === "compile-errors") {
+    return report.errors.flatMap((error: any) =>
+      error.problems.map((problem: any) => ({
+        kind: docsTitles.includes(problem.title) ? "docs" : "compile",
+        file: relativePath(error.path, err.dir),
+        line: problem.region.start.line,
+        column: problem.region.start.column,
+        endLine: problem.region.end.line,
+        endColumn: problem.region.end.column,
+        title: problem.title,
+        message: plainText(problem.message),
+      }))
+    );
+  } else if (report.type === "error") {
+    const manifest = /(^|\/)elm(-application)?\.json$/.test(report.path || "");
+    return [
+      {
+        kind: manifest
+          ? "manifest"
+          : docsTitles.includes(report.title)
+          ? "docs"
+          : report.title === "COMPILER"
+          ? "error"
+          : "compile",
+        file: report.path && relativePath(report.path, err.dir),
+        title: report.title,
+        message: plainText(report.message),
+      },
+    ];
+  }
+  return [{ kind: "compile", file: null, title: "BUILD", message }];
+}
+
+/*
+ * The exit status of the most fundamental problem: an invalid manifest, then
+ * a compile error, then invalid docs, and 0 without problems
+ */
+export function exitCode(diagnostics: Diagnostic[]): number {
+  const kinds = diagnostics.map(({ kind }) => kind);
+  const kind = (["manifest", "compile", "docs"] as DiagnosticKind[]).find((k) =>
+    kinds.includes(k)
+  );
+  return diagnostics.length === 0 ? 0 : exitCodes[kind || "error"];
+}
+
+/*
+ * Format diagnostics as JSON, as GitHub workflow annotations or as compact
+ * file:line:col: message lines for editors
+ */
+export function formatReport(
+  format: ReportFormat,
+  diagnostics: Diagnostic[]
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify({ status: exitCode(diagnostics), diagnostics });
+    case "github":
+      return diagnostics.map(annotation).join("\n");
+    case "compact":
+      return diagnostics
+        .map(
+          (d) =>
+            `${d.file || "."}:${d.line || 1}:${d.column || 1}: ` +
+            `${d.title}: ${firstParagraph(d.message)}`
+        )
+        .join("\n");
+  }
+}
+
+function annotation(d: Diagnostic): string {
+  const properties = [
+    d.file && `file=${escapeProperty(d.file)}`,
+    d.line && `line=${d.line}`,
+    d.column && `col=${d.column}`,
+    d.endLine && `endLine=${d.endLine}`,
+    d.endColumn && `endColumn=${d.endColumn}`,
+    `title=${escapeProperty(d.title)}`,
+  ].filter(Boolean);
+  return `::error ${properties.join(",")}::${escapeData(d.message)}`;
+}
+
+function relativePath(file: string, dir: string = "."): string {
+  return path.relative(process.cwd(), path.resolve(dir, file));
+}
+
+// Compiler messages are strings and styled strings
+export function plainText(message: (string | { string: string })[]): string {
+  return message
+    .map((part) => (typeof part === "string" ? part : part.string))
+    .join("");
+}
+
+export function firstParagraph(message: string): string {
+  return message
+    .trim()
+    .split(/\n\s*\n/)[0]
+    .replace(/\s+/g, " ");
+}
+
+function escapeData(s: string): string {
+  return s.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+function escapeProperty(s: string): string {
+  return escapeData(s).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
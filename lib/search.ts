@@ -0,0 +1,439 @@
+import { Module } from "./docs.js";
+
+export type SymbolKind = "value" | "union" | "alias" | "binop";
+
+export interface SearchResult {
+  package: string;
+  version: string;
+  module: string;
+  name: string;
+  kind: SymbolKind;
+  type?: string;
+  url: string;
+}
+
+interface Entry {
+  symbol: SearchResult;
+  // parsed type of values and binary operators
+  type: Type | null;
+}
+
+type Type =
+  | { kind: "var"; name: string }
+  | { kind: "app"; name: string; args: Type[] }
+  | { kind: "fun"; args: Type[]; result: Type }
+  | { kind: "tuple"; items: Type[] }
+  | { kind: "record"; fields: [string, Type][] };
+
+type Subst = Map<string, Type>;
+
+type Constraint = "number" | "comparable" | "appendable" | "compappend";
+
+// Constraints implied by each constraint, compappend being both
+const implied: Record<Constraint, Constraint[]> = {
+  number: ["number", "comparable"],
+  comparable: ["comparable"],
+  appendable: ["appendable"],
+  compappend: ["compappend", "comparable", "appendable"],
+};
+
+/*
+ * In memory index of the symbols of one version per package, searchable by
+ * name or by type signature, Hoogle-style.
+ */
+export class SymbolIndex {
+  private packages = new Map<string, Entry[]>();
+
+  set(name: string, version: string, docs: Module[]) {
+    this.packages.set(name, indexDocs(name, version, docs));
+  }
+
+  delete(name: string) {
+    this.packages.delete(name);
+  }
+
+  /*
+   * Search by type signature when the query looks like a type, like
+   * `List a -> Maybe a`, or by name otherwise, like `head` or `List.head`.
+   */
+  search(query: string, limit: number = 50): SearchResult[] {
+    const q = query.trim();
+    if (q === "") {
+      return [];
+    }
+    const queryType = isTypeQuery(q) ? parseType(q) : null;
+    const results: { symbol: SearchResult; distance: number }[] = [];
+    this.packages.forEach((entries) => {
+      entries.forEach((entry) => {
+        const distance = queryType
+          ? typeDistance(queryType, entry.type)
+          : nameDistance(q, entry.symbol);
+        if (distance !== null) {
+          results.push({ symbol: entry.symbol, distance });
+        }
+      });
+    });
+    return results
+      .sort(
+        (a, b) =>
+          a.distance - b.distance ||
+          a.symbol.name.length - b.symbol.name.length ||
+          a.symbol.package.localeCompare(b.symbol.package) ||
+          a.symbol.module.localeCompare(b.symbol.module)
+      )
+      .slice(0, limit)
+      .map((result) => result.symbol);
+  }
+}
+
+function indexDocs(name: string, version: string, docs: Module[]): Entry[] {
+  const entries: Entry[] = [];
+  docs.forEach((module) => {
+    const entry = (kind: SymbolKind, symbol: string, type?: string) => {
+      entries.push({
+        symbol: {
+          package: name,
+          version,
+          module: module.name,
+          name: symbol,
+          kind,
+          type,
+          url: `/packages/${name}/${version}/${module.name.replace(
+            /\./g,
+            "-"
+          )}#${encodeURIComponent(symbol)}`,
+        },
+        type:
+          type && (kind === "value" || kind === "binop")
+            ? parseType(type)
+            : null,
+      });
+    };
+    module.values.forEach((v) => entry("value", v.name, v.type));
+    module.binops.forEach((b) => entry("binop", b.name, b.type));
+    module.aliases.forEach((a) => entry("alias", a.name, a.type));
+    module.unions.forEach((u) => entry("union", u.name));
+  });
+  return entries;
+}
+
+function isTypeQuery(query: string): boolean {
+  return query.includes("->") || /^[A-Z][\w.]*\s+\S/.test(query);
+}
+
+// Lower is better, null when the name does not match
+function nameDistance(query: string, symbol: SearchResult): number | null {
+  const q = query.toLowerCase();
+  const name = symbol.name.toLowerCase();
+  const qualified = `${symbol.module}.${symbol.name}`.toLowerCase();
+  if (symbol.name === query || qualified === q) {
+    return 0;
+  } else if (name === q || name === q.replace(/^\((.*)\)$/, "$1")) {
+    return 1;
+  } else if (name.startsWith(q) || qualified.startsWith(q)) {
+    return 2;
+  } else if (name.includes(q)) {
+    return 3;
+  }
+  return null;
+}
+
+/*
+ * Types match if they unify, instantiating symbol type variables being
+ * cheaper than instantiating query ones, and constrained type variables
+ * only standing for types satisfying their constraint. The arguments of
+ * functions up to 4 arguments may be given in any order, at a small cost.
+ */
+function typeDistance(query: Type, type: Type | null): number | null {
+  if (type === null) {
+    return null;
+  }
+  const q = renameVars(query, "q");
+  const t = renameVars(type, "t");
+  if (
+    q.kind !== "fun" ||
+    t.kind !== "fun" ||
+    q.args.length !== t.args.length ||
+    q.args.length > 4
+  ) {
+    return unificationCost(q, t);
+  }
+
+  let best: number | null = null;
+  permutations(q.args).forEach((args, i) => {
+    const cost = unificationCost({ ...q, args }, t);
+    if (cost !== null && (best === null || cost + (i > 0 ? 1 : 0) < best)) {
+      best = cost + (i > 0 ? 1 : 0);
+    }
+  });
+  return best;
+}
+
+function unificationCost(query: Type, type: Type): number | null {
+  const subst = unify(query, type, new Map());
+  if (subst === null) {
+    return null;
+  }
+  let cost = 0;
+  subst.forEach((value, name) => {
+    if (walk(value, subst).kind !== "var") {
+      cost += name.startsWith("t.") ? 1 : 2;
+    }
+  });
+  return cost;
+}
+
+function unify(a: Type, b: Type, subst: Subst): Subst | null {
+  a = walk(a, subst);
+  b = walk(b, subst);
+  if (a.kind === "var" && b.kind === "var") {
+    return a.name === b.name
+      ? subst
+      : bind(a.name, b, subst) || bind(b.name, a, subst);
+  } else if (a.kind === "var") {
+    return bind(a.name, b, subst);
+  } else if (b.kind === "var") {
+    return bind(b.name, a, subst);
+  }
+
+  if (a.kind === "app" && b.kind === "app" && a.name === b.name) {
+    return unifyAll(a.args, b.args, subst);
+  } else if (a.kind === "fun" && b.kind === "fun") {
+    return unifyAll([...a.args, a.result], [...b.args, b.result], subst);
+  } else if (a.kind === "tuple" && b.kind === "tuple") {
+    return unifyAll(a.items, b.items, subst);
+  } else if (a.kind === "record" && b.kind === "record") {
+    const fields = new Map(b.fields);
+    if (
+      a.fields.length !== b.fields.length ||
+      a.fields.some(([name]) => !fields.has(name))
+    ) {
+      return null;
+    }
+    return unifyAll(
+      a.fields.map(([, type]) => type),
+      a.fields.map(([name]) => fields.get(name) as Type),
+      subst
+    );
+  }
+  return null;
+}
+
+function unifyAll(as: Type[], bs: Type[], subst: Subst): Subst | null {
+  if (as.length !== bs.length) {
+    return null;
+  }
+  let result: Subst | null = subst;
+  for (let i = 0; i < as.length && result !== null; i++) {
+    result = unify(as[i], bs[i], result);
+  }
+  return result;
+}
+
+function bind(name: string, type: Type, subst: Subst): Subst | null {
+  const constraint = constraintOf(name);
+  if (
+    occurs(name, type, subst) ||
+    (constraint && !satisfies(constraint, type, subst))
+  ) {
+    return null;
+  }
+  return new Map(subst).set(name, type);
+}
+
+// Constraint of a type variable like number or comparable1, renamed or not
+function constraintOf(name: string): Constraint | null {
+  const match = name
+    .replace(/^[qt]\./, "")
+    .match(/^(number|comparable|appendable|compappend)/);
+  return match ? (match[1] as Constraint) : null;
+}
+
+/*
+ * Whether a type can stand for a constrained type variable, variables
+ * needing an at least as strict constraint
+ */
+function satisfies(constraint: Constraint, type: Type, subst: Subst): boolean {
+  type = walk(type, subst);
+  const comparable = (t: Type) => satisfies("comparable", t, subst);
+  if (type.kind === "var") {
+    const other = constraintOf(type.name);
+    return other !== null && implied[other].includes(constraint);
+  } else if (type.kind === "tuple") {
+    return constraint === "comparable" && type.items.every(comparable);
+  } else if (type.kind !== "app") {
+    return false;
+  }
+  switch (constraint) {
+    case "number":
+      return ["Int", "Float"].includes(type.name);
+    case "comparable":
+      return (
+        ["Int", "Float", "Char", "String"].includes(type.name) ||
+        (type.name === "List" && type.args.every(comparable))
+      );
+    case "appendable":
+      return ["String", "List"].includes(type.name);
+    case "compappend":
+      return (
+        type.name === "String" ||
+        (type.name === "List" && type.args.every(comparable))
+      );
+  }
+}
+
+function walk(type: Type, subst: Subst): Type {
+  while (type.kind === "var" && subst.has(type.name)) {
+    type = subst.get(type.name) as Type;
+  }
+  return type;
+}
+
+function occurs(name: string, type: Type, subst: Subst): boolean {
+  type = walk(type, subst);
+  return (
+    (type.kind === "var" && type.name === name) ||
+    children(type).some((child) => occurs(name, child, subst))
+  );
+}
+
+function children(type: Type): Type[] {
+  switch (type.kind) {
+    case "var":
+      return [];
+    case "app":
+      return type.args;
+    case "fun":
+      return [...type.args, type.result];
+    case "tuple":
+      return type.items;
+    case "record":
+      return type.fields.map(([, field]) => field);
+  }
+}
+
+function renameVars(type: Type, side: string): Type {
+  switch (type.kind) {
+    case "var":
+      return { kind: "var", name: `${side}.${type.name}` };
+    case "app":
+      return { ...type, args: type.args.map((t) => renameVars(t, side)) };
+    case "fun":
+      return {
+        kind: "fun",
+        args: type.args.map((t) => renameVars(t, side)),
+        result: renameVars(type.result, side),
+      };
+    case "tuple":
+      return {
+        kind: "tuple",
+        items: type.items.map((t) => renameVars(t, side)),
+      };
+    case "record":
+      return {
+        kind: "record",
+        fields: type.fields.map(([name, t]) => [name, renameVars(t, side)]),
+      };
+  }
+}
+
+// Identity first
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) {
+    return [items];
+  }
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [
+      item,
+      ...rest,
+    ])
+  );
+}
+
+/*
+ * Parse Elm types like `List.List a -> Maybe.Maybe a`, ignoring modules
+ * qualifiers and records extension variables. Return null on syntax errors.
+ */
+export function parseType(source: string): Type | null {
+  const tokens = source.match(/->|[\w.]+|[(){},|:]/g) || [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (token: string) => {
+    if (tokens[pos++] !== token) {
+      throw new Error(`expected ${token}`);
+    }
+  };
+
+  const parseFun = (): Type => {
+    const types = [parseApp()];
+    while (peek() === "->") {
+      pos++;
+      types.push(parseApp());
+    }
+    const result = types.pop() as Type;
+    return types.length > 0 ? { kind: "fun", args: types, result } : result;
+  };
+
+  const parseApp = (): Type => {
+    const token = peek();
+    if (token && /^[A-Z]/.test(token)) {
+      pos++;
+      const args: Type[] = [];
+      while (peek() && /^([\w.]+|\(|\{)$/.test(peek())) {
+        args.push(parseAtom());
+      }
+      return { kind: "app", name: unqualified(token), args };
+    }
+    return parseAtom();
+  };
+
+  const parseAtom = (): Type => {
+    const token = tokens[pos++];
+    if (token === undefined) {
+      throw new Error("unexpected end");
+    } else if (/^[a-z]/.test(token)) {
+      return { kind: "var", name: token };
+    } else if (/^[A-Z]/.test(token)) {
+      return { kind: "app", name: unqualified(token), args: [] };
+    } else if (token === "(") {
+      if (peek() === ")") {
+        pos++;
+        return { kind: "app", name: "()", args: [] };
+      }
+      const items = [parseFun()];
+      while (peek() === ",") {
+        pos++;
+        items.push(parseFun());
+      }
+      expect(")");
+      return items.length > 1 ? { kind: "tuple", items } : items[0];
+    } else if (token === "{") {
+      const fields: [string, Type][] = [];
+      if (tokens[pos + 1] === "|") {
+        pos += 2;
+      }
+      while (peek() !== "}") {
+        if (fields.length > 0) {
+          expect(",");
+        }
+        const name = tokens[pos++];
+        expect(":");
+        fields.push([name, parseFun()]);
+      }
+      pos++;
+      return { kind: "record", fields };
+    }
+    throw new Error(`unexpected ${token}`);
+  };
+
+  try {
+    const type = parseFun();
+    return pos === tokens.length ? type : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+function unqualified(name: string): string {
+  return name.split(".").pop() as string;
+}
@@ -1,8 +1,8 @@
-module Href exposing (toModule, toProject, toVersion)
+module Href exposing (toDependencies, toModule, toPage, toProject, toVersion)
 
 {-|
 
-@docs toModule, toProject, toVersion
+@docs toDependencies, toModule, toPage, toProject, toVersion
 
 -}
 
@@ -32,6 +32,18 @@ toModule author project version moduleName fragment =
     Url.custom Url.Absolute [ "packages", author, project, vsnToString version, String.replace "." "-" moduleName ] [] fragment
 
 
+{-| -}
+toPage : String -> String -> Maybe V.Version -> String -> Maybe String -> String
+toPage author project version name fragment =
+    Url.custom Url.Absolute [ "packages", author, project, vsnToString version, "pages", name ] [] fragment
+
+
+{-| -}
+toDependencies : String -> String -> V.Version -> String
+toDependencies author project version =
+    Url.absolute [ "packages", author, project, V.toString version, "dependencies" ] []
+
+
 
 -- HELPERS
 
@@ -10,8 +10,11 @@ import Browser
 import Browser.Navigation as Nav
 import Elm.Project as Project exposing (Project)
 import Elm.Version as Version exposing (Version)
+import Html exposing (Html, code, div, li, p, text, ul)
+import Html.Attributes exposing (class)
 import Json.Decode as Decode
 import Json.Encode as Encode
+import Page.Dependencies as Dependencies
 import Page.Diff as Diff
 import Page.Docs as Docs
 import Page.Problem as Problem
@@ -48,6 +51,8 @@ main =
 type alias Model =
     { key : Nav.Key
     , page : Page
+    , build : Maybe Ports.Build
+    , examples : List Ports.Examples
     }
 
 
@@ -56,6 +61,7 @@ type Page
     | Search Search.Model
     | Docs Docs.Model
     | Diff Diff.Model
+    | Dependencies Dependencies.Model
 
 
 
@@ -68,6 +74,10 @@ subscriptions model =
         [ Ports.onReadme OnReadme
         , Ports.onDocs OnDocs
         , Ports.onManifest OnManifest
+        , Ports.onBuild OnBuild
+        , Ports.onPages OnPages
+        , Ports.onExamples OnExamples
+        , Ports.onPackages OnPackages
         , Ports.locationHrefRequested LinkClicked
         ]
 
@@ -78,6 +88,15 @@ subscriptions model =
 
 view : Model -> Browser.Document Msg
 view model =
+    let
+        document =
+            viewPage model
+    in
+    { document | body = viewBuild model.build :: viewExamples model.examples :: document.body }
+
+
+viewPage : Model -> Browser.Document Msg
+viewPage model =
     case model.page of
         NotFound _ ->
             Skeleton.view never
@@ -97,6 +116,78 @@ view model =
         Diff diff ->
             Skeleton.view never (Diff.view diff)
 
+        Dependencies dependencies ->
+            Skeleton.view never (Dependencies.view dependencies)
+
+
+viewBuild : Maybe Ports.Build -> Html msg
+viewBuild maybeBuild =
+    case maybeBuild of
+        Just { author, project, status, duration, placeholders } ->
+            let
+                name =
+                    author ++ "/" ++ project
+            in
+            case status of
+                "started" ->
+                    div [ class "build-status build-started" ]
+                        [ text ("Building " ++ name ++ "...") ]
+
+                "failed" ->
+                    div [ class "build-status build-failed" ]
+                        [ text ("Failed to build " ++ name) ]
+
+                _ ->
+                    div [ class "build-status build-succeeded" ]
+                        [ text ("Built " ++ name ++ toSeconds duration ++ toPlaceholders placeholders) ]
+
+        Nothing ->
+            text ""
+
+
+viewExamples : List Ports.Examples -> Html msg
+viewExamples examples =
+    case List.concatMap .examples examples of
+        [] ->
+            text ""
+
+        failures ->
+            div [ class "examples-failed" ]
+                [ p [] [ text "Code examples not compiling:" ]
+                , ul [] (List.map viewExample failures)
+                ]
+
+
+viewExample : Ports.Example -> Html msg
+viewExample { moduleName, symbol, message } =
+    li []
+        [ code [] [ text (moduleName ++ Maybe.withDefault "" (Maybe.map ((++) ".") symbol)) ]
+        , text (": " ++ message)
+        ]
+
+
+toPlaceholders : Int -> String
+toPlaceholders placeholders =
+    case placeholders of
+        0 ->
+            ""
+
+        1 ->
+            " with 1 undocumented placeholder"
+
+        _ ->
+            " with " ++ String.fromInt placeholders ++ " undocumented placeholders"
+
+
+toSeconds : Maybe Int -> String
+toSeconds duration =
+    case duration of
+        Just ms ->
+            " in " ++ String.fromFloat (toFloat (ms // 100) / 10) ++ "s"
+
+        Nothing ->
+            ""
+
 
 
 -- INIT
@@ -107,6 +198,8 @@ init _ url key =
     stepUrl url
         { key = key
         , page = NotFound Session.empty
+        , build = Nothing
+        , examples = []
         }
 
 
@@ -120,10 +213,15 @@ type Msg
     | UrlChanged Url.Url
     | SearchMsg Search.Msg
     | DiffMsg Diff.Msg
+    | DependenciesMsg Dependencies.Msg
     | DocsMsg Docs.Msg
     | OnReadme Ports.Readme
     | OnDocs Ports.Docs
     | OnManifest Ports.Manifest
+    | OnBuild Ports.Build
+    | OnPages Ports.Pages
+    | OnExamples Ports.Examples
+    | OnPackages Ports.Packages
 
 
 update : Msg -> Model -> ( Model, Cmd Msg )
@@ -158,6 +256,14 @@ update message model =
                 _ ->
                     ( model, Cmd.none )
 
+        DependenciesMsg msg ->
+            case model.page of
+                Dependencies dependencies ->
+                    stepDependencies model (Dependencies.update msg dependencies)
+
+                _ ->
+                    ( model, Cmd.none )
+
         DocsMsg msg ->
             case model.page of
                 Docs docs ->
@@ -175,6 +281,29 @@ update message model =
         OnManifest manifest ->
             ( updateManifest manifest model, Cmd.none )
 
+        OnBuild build ->
+            ( { model | build = Just build }, Cmd.none )
+
+        OnPages pages ->
+            ( updatePages pages model, Cmd.none )
+
+        OnExamples examples ->
+            ( { model | examples = examples :: List.filter (not << sameProject examples) model.examples }
+            , Cmd.none
+            )
+
+        OnPackages packages ->
+            let
+                session =
+                    Session.clearPackages packages.names (exit model)
+            in
+            case model.page of
+                Search search ->
+                    stepSearch model (Search.refresh session search)
+
+                _ ->
+                    ( { model | page = setPageSession session model.page }, Cmd.none )
+
 
 requestHref : Nav.Key -> String -> Cmd msg
 requestHref navKey href =
@@ -212,6 +341,13 @@ stepDiff model ( diff, cmds ) =
     )
 
 
+stepDependencies : Model -> ( Dependencies.Model, Cmd Dependencies.Msg ) -> ( Model, Cmd Msg )
+stepDependencies model ( dependencies, cmds ) =
+    ( { model | page = Dependencies dependencies }
+    , Cmd.map DependenciesMsg cmds
+    )
+
+
 
 -- WEBSOCKET UPDATES
 
@@ -297,6 +433,38 @@ updatePageManifest author project version manifest model =
     { model | page = newPage }
 
 
+updatePages : Ports.Pages -> Model -> Model
+updatePages { author, project, version, pages } model =
+    case ( Version.fromString version, Decode.decodeValue Session.pagesDecoder pages ) of
+        ( Just v, Ok pages_ ) ->
+            updatePagePages author project v pages_ model
+
+        _ ->
+            model
+
+
+updatePagePages : String -> String -> Version -> List Session.Page -> Model -> Model
+updatePagePages author project version pages model =
+    let
+        newSession =
+            Session.addPages author project version pages (exit model)
+
+        newPage =
+            case model.page of
+                Docs m ->
+                    Docs (Docs.updatePages author project version pages m)
+
+                _ ->
+                    setPageSession newSession model.page
+    in
+    { model | page = newPage }
+
+
+sameProject : Ports.Examples -> Ports.Examples -> Bool
+sameProject a b =
+    a.author == b.author && a.project == b.project
+
+
 setPageSession : Session.Data -> Page -> Page
 setPageSession session page =
     case page of
@@ -309,6 +477,9 @@ setPageSession session page =
         Diff m ->
             Diff { m | session = session }
 
+        Dependencies m ->
+            Dependencies { m | session = session }
+
         Docs m ->
             Docs { m | session = session }
 
@@ -332,6 +503,9 @@ exit model =
         Diff m ->
             m.session
 
+        Dependencies m ->
+            m.session
+
 
 
 -- ROUTER
@@ -351,6 +525,10 @@ stepUrl url model =
                     (\author project ->
                         stepDiff model (Diff.init session author project)
                     )
+                , route (s "packages" </> author_ </> project_ </> exactVersion_ </> s "dependencies")
+                    (\author project version ->
+                        stepDependencies model (Dependencies.init session author project version)
+                    )
                 , route (s "packages" </> author_ </> project_ </> version_ </> focus_)
                     (\author project version focus ->
                         stepDocs model (Docs.init session author project version focus)
@@ -393,10 +571,16 @@ version_ =
                 Maybe.map Just (Version.fromString string)
 
 
+exactVersion_ : Parser (Version -> a) a
+exactVersion_ =
+    custom "VERSION" Version.fromString
+
+
 focus_ : Parser (Docs.Focus -> a) a
 focus_ =
     oneOf
         [ map Docs.Readme (top </> fragment (Maybe.andThen Url.percentDecode))
+        , map Docs.Page (s "pages" </> Parser.string </> fragment (Maybe.andThen Url.percentDecode))
         , map Docs.Module (moduleName_ </> fragment (Maybe.andThen Url.percentDecode))
         ]
 
@@ -0,0 +1,195 @@
+module Page.Dependencies exposing
+    ( Model, Msg
+    , init, update, view
+    )
+
+{-|
+
+@docs Model, Msg
+@docs init, update, view
+
+-}
+
+import Elm.Version as V
+import Href
+import Html exposing (..)
+import Html.Attributes exposing (..)
+import Http
+import Page.Problem as Problem
+import Session
+import Skeleton
+
+
+
+-- MODEL
+
+
+{-| -}
+type alias Model =
+    { session : Session.Data
+    , author : String
+    , project : String
+    , version : V.Version
+    , dependencies : Status (List Session.Dependency)
+    }
+
+
+type Status a
+    = Failure Http.Error
+    | Loading
+    | Success a
+
+
+{-| -}
+init : Session.Data -> String -> String -> V.Version -> ( Model, Cmd Msg )
+init session author project version =
+    ( Model session author project version Loading
+    , Session.fetchDependencies GotDependencies author project version
+    )
+
+
+
+-- UPDATE
+
+
+{-| -}
+type Msg
+    = GotDependencies (Result Http.Error (List Session.Dependency))
+
+
+{-| -}
+update : Msg -> Model -> ( Model, Cmd msg )
+update msg model =
+    case msg of
+        GotDependencies result ->
+            case result of
+                Err err ->
+                    ( { model | dependencies = Failure err }
+                    , Cmd.none
+                    )
+
+                Ok dependencies ->
+                    ( { model | dependencies = Success dependencies }
+                    , Cmd.none
+                    )
+
+
+
+-- VIEW
+
+
+{-| -}
+view : Model -> Skeleton.Details msg
+view model =
+    { title = model.author ++ "/" ++ model.project ++ " dependencies"
+    , header =
+        [ Skeleton.authorSegment model.author
+        , Skeleton.projectSegment model.author model.project
+        , Skeleton.versionSegment model.author model.project (Just model.version)
+        ]
+    , warning = Skeleton.NoProblems
+    , attrs = [ class "pkg-overview" ]
+    , kids =
+        case model.dependencies of
+            Failure err ->
+                [ div Problem.styles (Problem.httpError "dependencies.json" err)
+                ]
+
+            Loading ->
+                [ text ""
+                ]
+
+            Success [] ->
+                [ h1 [] [ text "Dependencies" ]
+                , p [] [ text "No dependencies." ]
+                ]
+
+            Success dependencies ->
+                h1 [] [ text "Dependencies" ]
+                    :: List.concatMap (viewKind dependencies) kinds
+    }
+
+
+kinds : List ( String, String )
+kinds =
+    [ ( "direct", "Direct" )
+    , ( "indirect", "Indirect" )
+    , ( "test", "Test" )
+    , ( "test-indirect", "Indirect test" )
+    ]
+
+
+viewKind : List Session.Dependency -> ( String, String ) -> List (Html msg)
+viewKind dependencies ( kind, title ) =
+    case List.filter (\dependency -> dependency.kind == kind) dependencies of
+        [] ->
+            []
+
+        selected ->
+            [ h2 [] [ text title ]
+            , table [ class "dependencies" ]
+                (tr []
+                    [ th [] [ text "Package" ]
+                    , th [] [ text "Constraint" ]
+                    , th [] [ text "Version" ]
+                    , th [] [ text "Cached versions" ]
+                    , th [] [ text "Docs" ]
+                    , th [] [ text "Depends on" ]
+                    , th [] [ text "Used by" ]
+                    ]
+                    :: List.map viewDependency selected
+                )
+            ]
+
+
+viewDependency : Session.Dependency -> Html msg
+viewDependency dependency =
+    tr [ id dependency.name ]
+        [ td []
+            [ case dependency.version of
+                Just version ->
+                    if List.member version dependency.cached then
+                        viewPackageLink dependency.name dependency.name version
+
+                    else
+                        text dependency.name
+
+                Nothing ->
+                    text dependency.name
+            ]
+        , td [] [ text (Maybe.withDefault "" dependency.constraint) ]
+        , td [] [ text (Maybe.withDefault "not cached" dependency.version) ]
+        , td [] <|
+            List.intersperse (text ", ") <|
+                List.map (\version -> viewPackageLink version dependency.name version) dependency.cached
+        , td []
+            [ text <|
+                case ( dependency.version, dependency.docs ) of
+                    ( Nothing, _ ) ->
+                        ""
+
+                    ( Just _, True ) ->
+                        "yes"
+
+                    ( Just _, False ) ->
+                        "generated when opened"
+            ]
+        , td [] (viewNames dependency.dependencies)
+        , td [] (viewNames dependency.dependents)
+        ]
+
+
+viewPackageLink : String -> String -> String -> Html msg
+viewPackageLink label name version =
+    case ( String.split "/" name, V.fromString version ) of
+        ( [ author, project ], Just vsn ) ->
+            a [ href (Href.toVersion author project (Just vsn) Nothing) ] [ text label ]
+
+        _ ->
+            text label
+
+
+viewNames : List String -> List (Html msg)
+viewNames names =
+    List.intersperse (text ", ") <|
+        List.map (\name -> a [ href ("#" ++ name) ] [ text name ]) names
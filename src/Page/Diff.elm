@@ -116,25 +116,24 @@ view model =
                 [ h1 [] [ text "Cached Versions" ]
                 , p [] <|
                     viewReleases model.author model.project <|
-                        List.map .version
-                            (List.sortWith (\a b -> V.compare a.version b.version) (r :: rs))
+                        List.sortWith (\a b -> V.compare a.version b.version) (r :: rs)
                 ]
     }
 
 
-viewReleases : String -> String -> List V.Version -> List (Html msg)
-viewReleases author project versions =
-    case versions of
-        v1 :: ((v2 :: _) as vs) ->
+viewReleases : String -> String -> List Release.Release -> List (Html msg)
+viewReleases author project releases =
+    case releases of
+        r1 :: ((r2 :: _) as rs) ->
             let
                 attrs =
-                    if isSameMajor v1 v2 then
+                    if isSameMajor r1.version r2.version then
                         []
 
                     else
                         [ bold ]
             in
-            viewReadmeLink author project v1 attrs :: text ", " :: viewReleases author project vs
+            viewReadmeLink author project r1 attrs :: text ", " :: viewReleases author project rs
 
         r0 :: [] ->
             [ viewReadmeLink author project r0 [ bold ] ]
@@ -148,13 +147,13 @@ bold =
     style "font-weight" "bold"
 
 
-viewReadmeLink : String -> String -> V.Version -> List (Attribute msg) -> Html msg
-viewReadmeLink author project version attrs =
+viewReadmeLink : String -> String -> Release.Release -> List (Attribute msg) -> Html msg
+viewReadmeLink author project release attrs =
     let
         url =
-            Href.toVersion author project (Just version) Nothing
+            Href.toVersion author project (Just release.version) Nothing
     in
-    a (href url :: attrs) [ text (V.toString version) ]
+    a (href url :: attrs) [ text (Release.label release) ]
 
 
 isSameMajor : V.Version -> V.Version -> Bool
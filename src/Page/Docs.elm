@@ -2,7 +2,7 @@ module Page.Docs exposing
     ( Focus(..), Model, Msg
     , init, update, view
     , toTitle
-    , updateReadme, updateDocs, updateManifest
+    , updateReadme, updateDocs, updateManifest, updatePages
     )
 
 {-|
@@ -10,7 +10,7 @@ module Page.Docs exposing
 @docs Focus, Model, Msg
 @docs init, update, view
 @docs toTitle
-@docs updateReadme, updateDocs, updateManifest
+@docs updateReadme, updateDocs, updateManifest, updatePages
 
 -}
 
@@ -58,6 +58,7 @@ type alias Model =
     , readme : Status String
     , docs : Status Docs
     , manifest : Status Project
+    , pages : Status (List Session.Page)
     }
 
 
@@ -65,10 +66,11 @@ type alias Model =
 type Focus
     = Readme (Maybe String)
     | Module String (Maybe String)
+    | Page String (Maybe String)
 
 
 type Status a
-    = Failure
+    = Failure Http.Error
     | Loading
     | Success a
 
@@ -87,10 +89,10 @@ init session author project version focus =
                     Release.getLatest releases
             in
             getInfo latest <|
-                Model session author project version focus "" (Success latest) Loading Loading Loading
+                Model session author project version focus "" (Success latest) Loading Loading Loading Loading
 
         Nothing ->
-            ( Model session author project version focus "" Loading Loading Loading Loading
+            ( Model session author project version focus "" Loading Loading Loading Loading Loading
             , Session.fetchReleases GotReleases author project
             )
 
@@ -112,14 +114,23 @@ getInfo latest model =
                 (Session.getReadme model.session author project version)
                 (Session.getDocs model.session author project version)
                 (Session.getManifest model.session author project version)
+
+        ( pages, fetchPages ) =
+            case Session.getPages model.session author project version of
+                Just cachedPages ->
+                    ( Success cachedPages, Cmd.none )
+
+                Nothing ->
+                    ( Loading, Session.fetchPages (GotPages version) author project version )
     in
     case maybeInfo of
         Nothing ->
-            ( model
+            ( { model | pages = pages }
             , Cmd.batch
                 [ Session.fetchReadme (GotReadme version) author project version
                 , Session.fetchDocs (GotDocs version) author project version
                 , Session.fetchManifest (GotManifest version) author project version
+                , fetchPages
                 ]
             )
 
@@ -128,8 +139,9 @@ getInfo latest model =
                 | readme = Success readme
                 , docs = Success docs
                 , manifest = Success manifest
+                , pages = pages
               }
-            , scrollIfNeeded model.focus
+            , Cmd.batch [ scrollIfNeeded model.focus, fetchPages ]
             )
 
 
@@ -148,6 +160,9 @@ scrollIfNeeded focus =
         Module _ (Just tag) ->
             scrollToTag tag
 
+        Page _ (Just tag) ->
+            scrollToTag tag
+
         _ ->
             Cmd.none
 
@@ -164,6 +179,7 @@ type Msg
     | GotReadme Version (Result Http.Error String)
     | GotDocs Version (Result Http.Error Docs)
     | GotManifest Version (Result Http.Error Project)
+    | GotPages Version (Result Http.Error (List Session.Page))
 
 
 {-| -}
@@ -182,11 +198,12 @@ update msg model =
 
         GotReleases result ->
             case result of
-                Err _ ->
+                Err err ->
                     ( { model
-                        | latest = Failure
-                        , readme = Failure
-                        , docs = Failure
+                        | latest = Failure err
+                        , readme = Failure err
+                        , docs = Failure err
+                        , pages = Failure err
                       }
                     , Cmd.none
                     )
@@ -210,8 +227,8 @@ update msg model =
 
         GotReadme version result ->
             case result of
-                Err _ ->
-                    ( { model | readme = Failure }
+                Err err ->
+                    ( { model | readme = Failure err }
                     , Cmd.none
                     )
 
@@ -225,8 +242,8 @@ update msg model =
 
         GotDocs version result ->
             case result of
-                Err _ ->
-                    ( { model | docs = Failure }
+                Err err ->
+                    ( { model | docs = Failure err }
                     , Cmd.none
                     )
 
@@ -241,7 +258,7 @@ update msg model =
         GotManifest version result ->
             case result of
                 Err err ->
-                    ( { model | manifest = Failure }
+                    ( { model | manifest = Failure err }
                     , Cmd.none
                     )
 
@@ -253,6 +270,22 @@ update msg model =
                     , Cmd.none
                     )
 
+        GotPages version result ->
+            case result of
+                Err _ ->
+                    -- Extra pages are optional
+                    ( { model | pages = Success [] }
+                    , Cmd.none
+                    )
+
+                Ok pages ->
+                    ( { model
+                        | pages = Success pages
+                        , session = Session.addPages model.author model.project version pages model.session
+                      }
+                    , scrollIfNeeded model.focus
+                    )
+
 
 
 -- EXTERNAL UPDATES
@@ -300,6 +333,20 @@ updateManifest author project version manifest model =
         { model | session = newSession }
 
 
+{-| -}
+updatePages : String -> String -> Version -> List Session.Page -> Model -> Model
+updatePages author project version pages model =
+    let
+        newSession =
+            Session.addPages author project version pages model.session
+    in
+    if author == model.author && project == model.project && Just version == model.version then
+        { model | session = newSession, pages = Success pages }
+
+    else
+        { model | session = newSession }
+
+
 
 -- VIEW
 
@@ -332,6 +379,9 @@ toTitle model =
         Module name _ ->
             name ++ " - " ++ toGenericTitle model
 
+        Page name _ ->
+            name ++ " - " ++ toGenericTitle model
+
 
 toGenericTitle : Model -> String
 toGenericTitle model =
@@ -357,7 +407,7 @@ getVersion model =
                 Loading ->
                     Nothing
 
-                Failure ->
+                Failure _ ->
                     Nothing
 
 
@@ -369,7 +419,13 @@ toHeader : Model -> List Skeleton.Segment
 toHeader model =
     [ Skeleton.authorSegment model.author
     , Skeleton.projectSegment model.author model.project
-    , Skeleton.versionSegment model.author model.project (getVersion model)
+    , case ( getVersion model, Session.getReleases model.session model.author model.project ) of
+        ( Just version, Just releases ) ->
+            Skeleton.releaseSegment model.author model.project version <|
+                Release.versionLabel releases version
+
+        _ ->
+            Skeleton.versionSegment model.author model.project (getVersion model)
     ]
 
 
@@ -395,7 +451,7 @@ toWarning model =
                 Loading ->
                     Skeleton.NoProblems
 
-                Failure ->
+                Failure _ ->
                     Skeleton.NoProblems
 
 
@@ -408,6 +464,9 @@ toNewerUrl model =
         Module name tag ->
             Href.toModule model.author model.project Nothing name tag
 
+        Page name tag ->
+            Href.toPage model.author model.project Nothing name tag
+
 
 
 -- VIEW CONTENT
@@ -427,6 +486,9 @@ viewContent model =
         Module name tag ->
             lazy5 viewModule model.author model.project model.version name model.docs
 
+        Page name _ ->
+            lazy2 viewPage name model.pages
+
 
 
 -- VIEW README
@@ -441,11 +503,36 @@ viewReadme status =
         Loading ->
             Utils.Spinner.view
 
-        -- TODO
-        Failure ->
+        Failure err ->
             div
                 (class "block-list" :: Problem.styles)
-                (Problem.offline "README.md")
+                (Problem.httpError "README.md" err)
+
+
+
+-- VIEW PAGE
+
+
+viewPage : String -> Status (List Session.Page) -> Html msg
+viewPage name status =
+    case status of
+        Success pages ->
+            case List.filter (\page -> page.name == name) pages of
+                page :: _ ->
+                    div [ class "block-list" ] [ Markdown.block page.content ]
+
+                [] ->
+                    div
+                        (class "block-list" :: Problem.styles)
+                        (Problem.offline (name ++ ".md"))
+
+        Loading ->
+            Utils.Spinner.view
+
+        Failure err ->
+            div
+                (class "block-list" :: Problem.styles)
+                (Problem.httpError "pages.json" err)
 
 
 
@@ -484,10 +571,10 @@ viewModule author project version name status =
                 , Utils.Spinner.view
                 ]
 
-        Failure ->
+        Failure err ->
             div
                 (class "block-list" :: Problem.styles)
-                (Problem.offline "docs.json")
+                (Problem.httpError "docs.json" err)
 
 
 findModule : String -> List Docs.Module -> Maybe Docs.Module
@@ -514,8 +601,10 @@ viewSidebar model =
         [ class "pkg-nav"
         ]
         [ lazy4 viewReadmeLink model.author model.project model.version model.focus
+        , lazy5 viewPageLinks model.author model.project model.version model.focus model.pages
         , br [] []
         , lazy4 viewBrowseSourceLink model.author model.project model.version model.latest
+        , lazy4 viewDependenciesLink model.author model.project model.version model.latest
         , h2 [ style "margin-bottom" "0" ] [ text "Modules" ]
         , input
             [ placeholder "Search"
@@ -533,7 +622,7 @@ viewSidebar model =
 viewSidebarModules : Model -> Html msg
 viewSidebarModules model =
     case model.docs of
-        Failure ->
+        Failure _ ->
             text ""
 
         -- TODO
@@ -553,7 +642,10 @@ viewSidebarModules model =
                     query =
                         model.query |> String.toLower |> String.trim
                 in
-                ul [] (List.filterMap (viewSearchItem model query) modules)
+                ul []
+                    (searchPages model query
+                        ++ List.filterMap (viewSearchItem model query) modules
+                    )
 
         Success (Error _) ->
             text ""
@@ -584,6 +676,33 @@ viewSearchItem model query docs =
                 ]
 
 
+searchPages : Model -> String -> List (Html msg)
+searchPages model query =
+    case model.pages of
+        Success pages ->
+            List.filterMap (viewPageSearchItem model query) pages
+
+        _ ->
+            []
+
+
+viewPageSearchItem : Model -> String -> Session.Page -> Maybe (Html msg)
+viewPageSearchItem { author, project, version } query page =
+    if
+        String.contains query (String.toLower page.title)
+            || String.contains query (String.toLower page.content)
+    then
+        Just <|
+            li
+                [ class "pkg-nav-search-chunk"
+                ]
+                [ navLink page.title (Href.toPage author project version page.name Nothing) False
+                ]
+
+    else
+        Nothing
+
+
 isMatch : String -> (String -> String -> b) -> { r | name : String } -> Maybe b
 isMatch query toResult { name } =
     if String.contains query (String.toLower name) then
@@ -629,6 +748,35 @@ viewReadmeLink author project version focus =
             Module _ _ ->
                 False
 
+            Page _ _ ->
+                False
+
+
+
+-- VIEW PAGES LINKS
+
+
+viewPageLinks : String -> String -> Maybe Version -> Focus -> Status (List Session.Page) -> Html msg
+viewPageLinks author project version focus status =
+    case status of
+        Success ((_ :: _) as pages) ->
+            let
+                viewPageLink page =
+                    li []
+                        [ navLink page.title (Href.toPage author project version page.name Nothing) <|
+                            case focus of
+                                Page name _ ->
+                                    name == page.name
+
+                                _ ->
+                                    False
+                        ]
+            in
+            ul [] (List.map viewPageLink pages)
+
+        _ ->
+            text ""
+
 
 
 -- VIEW "SOURCE" LINK
@@ -648,7 +796,7 @@ viewBrowseSourceLink author project maybeVersion latest =
                 Loading ->
                     text "Source"
 
-                Failure ->
+                Failure _ ->
                     text "Source"
 
 
@@ -664,6 +812,29 @@ viewBrowseSourceLinkHelp author project version =
 
 
 
+-- VIEW "DEPENDENCIES" LINK
+
+
+viewDependenciesLink : String -> String -> Maybe Version -> Status Version -> Html msg
+viewDependenciesLink author project maybeVersion latest =
+    let
+        link version =
+            a [ class "pkg-nav-module", href (Href.toDependencies author project version) ]
+                [ text "Dependencies" ]
+    in
+    div [] <|
+        case ( maybeVersion, latest ) of
+            ( Just version, _ ) ->
+                [ link version ]
+
+            ( Nothing, Success version ) ->
+                [ link version ]
+
+            ( Nothing, _ ) ->
+                [ text "Dependencies" ]
+
+
+
 -- VIEW "MODULE" LINK
 
 
@@ -681,6 +852,9 @@ viewModuleLink model name =
             Module selectedName _ ->
                 selectedName == name
 
+            Page _ _ ->
+                False
+
 
 viewValueItem : Model -> String -> String -> String -> Html msg
 viewValueItem { author, project, version } moduleName ownerName valueName =
@@ -25,6 +25,11 @@ maxWidth =
     64
 
 
+placeholder : String
+placeholder =
+    "Undocumented (elm-doc-preview placeholder)"
+
+
 
 -- VIEW
 
@@ -34,7 +39,11 @@ view : Info -> Docs.Block -> Html msg
 view info block =
     case block of
         Docs.MarkdownBlock markdown ->
-            span [ class "markdown-block" ] [ Markdown.block markdown ]
+            if String.trim markdown == placeholder then
+                span [ class "markdown-block undocumented" ] [ text "Undocumented module" ]
+
+            else
+                span [ class "markdown-block" ] [ Markdown.block markdown ]
 
         Docs.ValueBlock value ->
             viewValue info value
@@ -63,7 +72,11 @@ viewCodeBlock : String -> String -> List (Line msg) -> Html msg
 viewCodeBlock name comment header =
     div [ class "docs-block", id name ]
         [ div [ class "docs-header" ] (List.map (div []) header)
-        , div [ class "docs-comment" ] [ Markdown.block comment ]
+        , if String.trim comment == placeholder then
+            div [ class "docs-comment undocumented" ] [ text "Undocumented" ]
+
+          else
+            div [ class "docs-comment" ] [ Markdown.block comment ]
         ]
 
 
@@ -1,8 +1,8 @@
-module Page.Problem exposing (missingModule, notFound, offline, styles)
+module Page.Problem exposing (httpError, missingModule, notFound, offline, styles)
 
 {-|
 
-@docs missingModule, notFound, offline, styles
+@docs httpError, missingModule, notFound, offline, styles
 
 -}
 
@@ -10,6 +10,7 @@ import Elm.Version as V
 import Href
 import Html exposing (..)
 import Html.Attributes exposing (..)
+import Http
 
 
 
@@ -48,6 +49,18 @@ offline file =
 
 
 
+{-| -}
+httpError : String -> Http.Error -> List (Html msg)
+httpError file error =
+    case error of
+        Http.BadBody reason ->
+            offline file ++ [ p [] [ text reason ] ]
+
+        _ ->
+            offline file
+
+
+
 -- MISSING MODULE
 
 
@@ -1,12 +1,12 @@
 module Page.Search exposing
     ( Model, Msg
-    , init, update, view
+    , init, refresh, update, view
     )
 
 {-|
 
 @docs Model, Msg
-@docs init, update, view
+@docs init, refresh, update, view
 
 -}
 
@@ -59,14 +59,28 @@ init session =
             ( Model session "" Loading Nothing
             , Cmd.batch
                 [ Session.fetchPreview GotPreview
-                , Http.get
-                    { url = "/search.json"
-                    , expect = Http.expectJson GotPackages (Decode.list Entry.decoder)
-                    }
+                , fetchPackages
                 ]
             )
 
 
+{-| Fetch again the packages list, keeping the current one until received.
+-}
+refresh : Session.Data -> Model -> ( Model, Cmd Msg )
+refresh session model =
+    ( { model | session = session }
+    , fetchPackages
+    )
+
+
+fetchPackages : Cmd Msg
+fetchPackages =
+    Http.get
+        { url = "/search.json"
+        , expect = Session.expectJson GotPackages (Decode.list Entry.decoder)
+        }
+
+
 
 -- UPDATE
 
@@ -1,13 +1,13 @@
 port module Ports exposing
-    ( Docs, Manifest, Readme
-    , onReadme, onDocs, onManifest
+    ( Docs, Manifest, Readme, Build, Pages, Examples, Example, Packages
+    , onReadme, onDocs, onManifest, onBuild, onPages, onExamples, onPackages
     , locationHrefRequested
     )
 
 {-|
 
-@docs Docs, Manifest, Readme
-@docs onReadme, onDocs, onManifest
+@docs Docs, Manifest, Readme, Build, Pages, Examples, Example, Packages
+@docs onReadme, onDocs, onManifest, onBuild, onPages, onExamples, onPackages
 @docs locationHrefRequested
 
 -}
@@ -42,6 +42,49 @@ type alias Manifest =
     }
 
 
+{-| -}
+type alias Build =
+    { author : String
+    , project : String
+    , version : String
+    , status : String
+    , duration : Maybe Int
+    , placeholders : Int
+    }
+
+
+{-| -}
+type alias Pages =
+    { author : String
+    , project : String
+    , version : String
+    , pages : Encode.Value
+    }
+
+
+{-| -}
+type alias Examples =
+    { author : String
+    , project : String
+    , version : String
+    , examples : List Example
+    }
+
+
+{-| -}
+type alias Example =
+    { moduleName : String
+    , symbol : Maybe String
+    , message : String
+    }
+
+
+{-| -}
+type alias Packages =
+    { names : List String
+    }
+
+
 {-| -}
 port onReadme : (Readme -> msg) -> Sub msg
 
@@ -54,5 +97,21 @@ port onDocs : (Docs -> msg) -> Sub msg
 port onManifest : (Manifest -> msg) -> Sub msg
 
 
+{-| -}
+port onBuild : (Build -> msg) -> Sub msg
+
+
+{-| -}
+port onPages : (Pages -> msg) -> Sub msg
+
+
+{-| -}
+port onExamples : (Examples -> msg) -> Sub msg
+
+
+{-| -}
+port onPackages : (Packages -> msg) -> Sub msg
+
+
 {-| -}
 port locationHrefRequested : (String -> msg) -> Sub msg
@@ -1,8 +1,8 @@
-module Release exposing (Release, decoder, getLatest)
+module Release exposing (Release, decoder, getLatest, label, versionLabel)
 
 {-|
 
-@docs Release, decoder, getLatest
+@docs Release, decoder, getLatest, label, versionLabel
 
 -}
 
@@ -16,10 +16,13 @@ import Utils.OneOrMore exposing (OneOrMore(..))
 -- RELEASE
 
 
-{-| -}
+{-| A release, with the git ref name of the pseudo-versions previewing git
+refs.
+-}
 type alias Release =
     { version : V.Version
     , time : Time.Posix
+    , ref : Maybe String
     }
 
 
@@ -49,17 +52,64 @@ getLatestVersionHelp releases maxRelease =
 
 
 
+-- LABEL
+
+
+{-| The version of a release, followed by its git ref if any, like
+`0.0.1 (main)`.
+-}
+label : Release -> String
+label release =
+    case release.ref of
+        Just ref ->
+            V.toString release.version ++ " (" ++ ref ++ ")"
+
+        Nothing ->
+            V.toString release.version
+
+
+{-| The label of a version among releases.
+-}
+versionLabel : OneOrMore Release -> V.Version -> String
+versionLabel (OneOrMore r rs) version =
+    case List.filter (\release -> release.version == version) (r :: rs) of
+        release :: _ ->
+            label release
+
+        [] ->
+            V.toString version
+
+
+
 -- JSON
 
 
 {-| -}
 decoder : D.Decoder (OneOrMore Release)
 decoder =
-    D.keyValuePairs (D.map (\i -> Time.millisToPosix (i * 1000)) D.int)
+    D.keyValuePairs releaseDecoder
         |> D.andThen (decoderHelp [])
 
 
-decoderHelp : List Release -> List ( String, Time.Posix ) -> D.Decoder (OneOrMore Release)
+{-| A release timestamp, or an object with the timestamp and the ref name of
+a git ref.
+-}
+releaseDecoder : D.Decoder ( Time.Posix, Maybe String )
+releaseDecoder =
+    D.oneOf
+        [ D.map (\time -> ( time, Nothing )) timeDecoder
+        , D.map2 (\time ref -> ( time, Just ref ))
+            (D.field "timestamp" timeDecoder)
+            (D.field "ref" D.string)
+        ]
+
+
+timeDecoder : D.Decoder Time.Posix
+timeDecoder =
+    D.map (\i -> Time.millisToPosix (i * 1000)) D.int
+
+
+decoderHelp : List Release -> List ( String, ( Time.Posix, Maybe String ) ) -> D.Decoder (OneOrMore Release)
 decoderHelp revReleases pairs =
     case pairs of
         [] ->
@@ -70,12 +120,12 @@ decoderHelp revReleases pairs =
                 r :: rs ->
                     D.succeed (OneOrMore r rs)
 
-        ( str, time ) :: otherPairs ->
+        ( str, ( time, ref ) ) :: otherPairs ->
             case V.fromString str of
                 Nothing ->
                     D.fail <| "Field `" ++ str ++ "` must be a valid version, like 3.1.4"
 
                 Just vsn ->
                     decoderHelp
-                        (Release vsn time :: revReleases)
+                        (Release vsn time ref :: revReleases)
                         otherPairs
@@ -1,18 +1,18 @@
 module Session exposing
-    ( Data, Docs(..), Preview, empty
-    , addDocs, addEntries, addManifest, addReadme, addReleases, addPreview
-    , fetchDocs, fetchManifest, fetchReadme, fetchReleases, fetchPreview
-    , getDocs, getEntries, getManifest, getReadme, getReleases, getPreview
-    , docsDecoder
+    ( Data, Dependency, Docs(..), Page, Preview, empty, clearPackages
+    , addDocs, addEntries, addManifest, addPages, addReadme, addReleases, addPreview
+    , fetchDependencies, fetchDocs, fetchManifest, fetchPages, fetchReadme, fetchReleases, fetchPreview
+    , getDocs, getEntries, getManifest, getPages, getReadme, getReleases, getPreview
+    , docsDecoder, pagesDecoder, expectJson
     )
 
 {-|
 
-@docs Data, Docs, Preview, empty
-@docs addDocs, addEntries, addManifest, addReadme, addReleases, addPreview
-@docs fetchDocs, fetchManifest, fetchReadme, fetchReleases, fetchPreview
-@docs getDocs, getEntries, getManifest, getReadme, getReleases, getPreview
-@docs docsDecoder
+@docs Data, Dependency, Docs, Page, Preview, empty, clearPackages
+@docs addDocs, addEntries, addManifest, addPages, addReadme, addReleases, addPreview
+@docs fetchDependencies, fetchDocs, fetchManifest, fetchPages, fetchReadme, fetchReleases, fetchPreview
+@docs getDocs, getEntries, getManifest, getPages, getReadme, getReleases, getPreview
+@docs docsDecoder, pagesDecoder, expectJson
 
 -}
 
@@ -41,6 +41,7 @@ type alias Data =
     , readmes : Dict.Dict String String
     , docs : Dict.Dict String Docs
     , manifests : Dict.Dict String Project
+    , pages : Dict.Dict String (List Page)
     , preview : Maybe Preview
     }
 
@@ -51,6 +52,14 @@ type Docs
     | Modules (List Docs.Module)
 
 
+{-| -}
+type alias Page =
+    { name : String
+    , title : String
+    , content : String
+    }
+
+
 {-| -}
 type alias Preview =
     { name : String
@@ -66,6 +75,7 @@ empty =
     , readmes = Dict.empty
     , docs = Dict.empty
     , manifests = Dict.empty
+    , pages = Dict.empty
     , preview = Nothing
     }
 
@@ -91,7 +101,7 @@ fetchPreview : (Result Http.Error Preview -> msg) -> Cmd msg
 fetchPreview toMsg =
     Http.get
         { url = Url.absolute [ "preview" ] []
-        , expect = Http.expectJson toMsg previewDecoder
+        , expect = expectJson toMsg previewDecoder
         }
 
 
@@ -118,6 +128,16 @@ addEntries entries data =
     { data | entries = Just entries }
 
 
+{-| Forget the packages list and the releases of installed or removed packages.
+-}
+clearPackages : List String -> Data -> Data
+clearPackages names data =
+    { data
+        | entries = Nothing
+        , releases = List.foldl Dict.remove data.releases names
+    }
+
+
 
 -- RELEASES
 
@@ -149,7 +169,7 @@ fetchReleases : (Result Http.Error (OneOrMore Release) -> msg) -> String -> Stri
 fetchReleases toMsg author project =
     Http.get
         { url = Url.absolute [ "packages", author, project, "releases.json" ] []
-        , expect = Http.expectJson toMsg Release.decoder
+        , expect = expectJson toMsg Release.decoder
         }
 
 
@@ -184,7 +204,7 @@ fetchReadme : (Result Http.Error String -> msg) -> String -> String -> V.Version
 fetchReadme toMsg author project version =
     Http.get
         { url = Url.absolute [ "packages", author, project, V.toString version, "README.md" ] []
-        , expect = Http.expectString toMsg
+        , expect = expectString toMsg
         }
 
 
@@ -213,7 +233,7 @@ fetchDocs : (Result Http.Error Docs -> msg) -> String -> String -> V.Version ->
 fetchDocs toMsg author project version =
     Http.get
         { url = Url.absolute [ "packages", author, project, V.toString version, "docs.json" ] []
-        , expect = Http.expectJson toMsg docsDecoder
+        , expect = expectJson toMsg docsDecoder
         }
 
 
@@ -256,5 +276,126 @@ fetchManifest :
 fetchManifest toMsg author project version =
     Http.get
         { url = Url.absolute [ "packages", author, project, V.toString version, "elm.json" ] []
-        , expect = Http.expectJson toMsg Project.decoder
+        , expect = expectJson toMsg Project.decoder
+        }
+
+
+
+-- PAGES
+
+
+{-| -}
+getPages : Data -> String -> String -> V.Version -> Maybe (List Page)
+getPages data author project version =
+    Dict.get (toVsnKey author project version) data.pages
+
+
+{-| -}
+addPages : String -> String -> V.Version -> List Page -> Data -> Data
+addPages author project version pages data =
+    let
+        newPages =
+            Dict.insert (toVsnKey author project version) pages data.pages
+    in
+    { data | pages = newPages }
+
+
+{-| -}
+fetchPages : (Result Http.Error (List Page) -> msg) -> String -> String -> V.Version -> Cmd msg
+fetchPages toMsg author project version =
+    Http.get
+        { url = Url.absolute [ "packages", author, project, V.toString version, "pages.json" ] []
+        , expect = expectJson toMsg pagesDecoder
         }
+
+
+{-| -}
+pagesDecoder : Decoder (List Page)
+pagesDecoder =
+    Decode.list <|
+        Decode.map3 Page
+            (Decode.field "name" Decode.string)
+            (Decode.field "title" Decode.string)
+            (Decode.field "content" Decode.string)
+
+
+
+-- DEPENDENCIES
+
+
+{-| -}
+type alias Dependency =
+    { name : String
+    , kind : String
+    , constraint : Maybe String
+    , version : Maybe String
+    , cached : List String
+    , docs : Bool
+    , dependencies : List String
+    , dependents : List String
+    }
+
+
+{-| Not kept in the session as it changes with the cache
+-}
+fetchDependencies : (Result Http.Error (List Dependency) -> msg) -> String -> String -> V.Version -> Cmd msg
+fetchDependencies toMsg author project version =
+    Http.get
+        { url = Url.absolute [ "packages", author, project, V.toString version, "dependencies.json" ] []
+        , expect = expectJson toMsg (Decode.field "dependencies" (Decode.list dependencyDecoder))
+        }
+
+
+dependencyDecoder : Decoder Dependency
+dependencyDecoder =
+    Decode.map8 Dependency
+        (Decode.field "name" Decode.string)
+        (Decode.field "kind" Decode.string)
+        (Decode.field "constraint" (Decode.nullable Decode.string))
+        (Decode.field "version" (Decode.nullable Decode.string))
+        (Decode.field "cached" (Decode.list Decode.string))
+        (Decode.field "docs" Decode.bool)
+        (Decode.field "dependencies" (Decode.list Decode.string))
+        (Decode.field "dependents" (Decode.list Decode.string))
+
+
+
+-- HTTP
+
+
+{-| Like Http.expectJson, with the server error reason as a BadBody
+-}
+expectJson : (Result Http.Error a -> msg) -> Decoder a -> Http.Expect msg
+expectJson toMsg decoder =
+    expectResponse toMsg (Decode.decodeString decoder >> Result.mapError Decode.errorToString)
+
+
+expectString : (Result Http.Error String -> msg) -> Http.Expect msg
+expectString toMsg =
+    expectResponse toMsg Ok
+
+
+expectResponse : (Result Http.Error a -> msg) -> (String -> Result String a) -> Http.Expect msg
+expectResponse toMsg toResult =
+    Http.expectStringResponse toMsg <|
+        \response ->
+            case response of
+                Http.BadUrl_ url ->
+                    Err (Http.BadUrl url)
+
+                Http.Timeout_ ->
+                    Err Http.Timeout
+
+                Http.NetworkError_ ->
+                    Err Http.NetworkError
+
+                Http.BadStatus_ metadata body ->
+                    case Decode.decodeString (Decode.field "error" Decode.string) body of
+                        Ok reason ->
+                            Err (Http.BadBody reason)
+
+                        Err _ ->
+                            Err (Http.BadStatus metadata.statusCode)
+
+                Http.GoodStatus_ _ body ->
+                    Result.mapError Http.BadBody (toResult body)
@@ -1,6 +1,7 @@
 module Skeleton exposing
     ( Details, Segment, Warning(..)
     , authorSegment, moduleSegment, projectSegment, versionSegment
+    , releaseSegment
     , view
     )
 
@@ -8,6 +9,7 @@ module Skeleton exposing
 
 @docs Details, Segment, Warning
 @docs authorSegment, moduleSegment, projectSegment, versionSegment
+@docs releaseSegment
 @docs view
 
 -}
@@ -69,6 +71,13 @@ versionSegment author project version =
     Link (Href.toVersion author project version Nothing) (vsnToString version)
 
 
+{-| A version segment with a label, like the git ref of a pseudo-version.
+-}
+releaseSegment : String -> String -> V.Version -> String -> Segment
+releaseSegment author project version label =
+    Link (Href.toVersion author project (Just version) Nothing) label
+
+
 {-| -}
 moduleSegment : String -> String -> Maybe V.Version -> String -> Segment
 moduleSegment author project version moduleName =
@@ -24,13 +24,30 @@ document.addEventListener("click", function (e) {
 });
 
 var ws = new WebSocket("ws://" + location.hostname + ":" + location.port + "/");
+var connected = false;
+
+ws.onopen = function () {
+  connected = true;
+};
 
 ws.onclose = function (event) {
-  if (event.code > 1001) {
+  // Static exports have no server to reconnect to
+  if (connected && event.code > 1001) {
     location.reload();
   }
 };
 
+function sendBuild(data, status) {
+  app.ports.onBuild.send({
+    author: data.author,
+    project: data.project,
+    version: data.version,
+    status: status,
+    duration: data.duration === undefined ? null : data.duration,
+    placeholders: data.placeholders || 0,
+  });
+}
+
 ws.onmessage = function (event) {
   var msg = JSON.parse(event.data);
   switch (msg.type) {
@@ -43,5 +60,34 @@ ws.onmessage = function (event) {
     case "docs":
       app.ports.onDocs.send(msg.data);
       break;
+    case "pages":
+      app.ports.onPages.send(msg.data);
+      break;
+    case "build-started":
+      sendBuild(msg.data, "started");
+      break;
+    case "build-succeeded":
+      sendBuild(msg.data, "succeeded");
+      break;
+    case "build-failed":
+      sendBuild(msg.data, "failed");
+      break;
+    case "examples":
+      app.ports.onExamples.send({
+        author: msg.data.author,
+        project: msg.data.project,
+        version: msg.data.version,
+        examples: msg.data.examples.map(function (example) {
+          return {
+            moduleName: example.module,
+            symbol: example.symbol || null,
+            message: example.message,
+          };
+        }),
+      });
+      break;
+    case "packages":
+      app.ports.onPackages.send({ names: msg.data.names });
+      break;
   }
 };
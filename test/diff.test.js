@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { bump, diffDocs } from "../lib/diff.js";
+
+function module(name, entries = {}) {
+  return {
+    name,
+    comment: "",
+    unions: [],
+    aliases: [],
+    values: [],
+    binops: [],
+    ...entries,
+  };
+}
+
+function value(name, type, comment = "") {
+  return { name, comment, type };
+}
+
+const base = module("Json", {
+  unions: [
+    {
+      name: "Value",
+      comment: "",
+      args: ["a"],
+      cases: [
+        ["Leaf", ["a"]],
+        ["Node", ["List (Json.Value a)"]],
+      ],
+    },
+  ],
+  aliases: [{ name: "Pair", comment: "", args: ["a"], type: "( a, a )" }],
+  values: [
+    value("map", "(a -> b) -> Json.Value a -> Json.Value b"),
+    value("sum", "List number -> number"),
+  ],
+  binops: [
+    {
+      name: "|=",
+      comment: "",
+      type: "a -> b -> ( a, b )",
+      associativity: "left",
+      precedence: 5,
+    },
+  ],
+});
+
+function changed(entries) {
+  return diffDocs("1.2.3", [base], "1.2.4", [module("Json", entries)]);
+}
+
+test("bump: resets the lower version numbers", () => {
+  assert.equal(bump("1.2.3", "PATCH"), "1.2.4");
+  assert.equal(bump("1.2.3", "MINOR"), "1.3.0");
+  assert.equal(bump("1.2.3", "MAJOR"), "2.0.0");
+});
+
+test("diffDocs: same API is a PATCH change", () => {
+  const diff = diffDocs("1.2.3", [base], "1.2.4", [base]);
+  assert.equal(diff.magnitude, "PATCH");
+  assert.equal(diff.suggestedVersion, "1.2.4");
+  assert.deepEqual(diff.changedModules, []);
+});
+
+test("diffDocs: ignores comments, spaces and type variables names", () => {
+  const diff = changed({
+    ...base,
+    comment: "New overview",
+    unions: [
+      {
+        ...base.unions[0],
+        comment: "Tree",
+        args: ["x"],
+        cases: [
+          ["Leaf", ["x"]],
+          ["Node", ["List  (Json.Value x)"]],
+        ],
+      },
+    ],
+    aliases: [{ ...base.aliases[0], args: ["b"], type: "( b,  b )" }],
+    values: [
+      value("map", "(x -> y) -> Json.Value x -> Json.Value y", "Map"),
+      value("sum", "List number1 -> number1"),
+    ],
+  });
+  assert.equal(diff.magnitude, "PATCH");
+});
+
+test("diffDocs: constrained type variables differ from the others", () => {
+  const diff = changed({
+    ...base,
+    values: [base.values[0], value("sum", "List a -> a")],
+  });
+  assert.equal(diff.magnitude, "MAJOR");
+  assert.deepEqual(diff.changedModules[0].changed.values, ["sum"]);
+});
+
+test("diffDocs: adding is a MINOR change", () => {
+  const diff = diffDocs("1.2.3", [base], "1.3.0", [
+    module("Json", {
+      ...base,
+      values: [...base.values, value("empty", "List a")],
+    }),
+    module("Json.Decode"),
+  ]);
+  assert.equal(diff.magnitude, "MINOR");
+  assert.equal(diff.suggestedVersion, "1.3.0");
+  assert.deepEqual(diff.addedModules, ["Json.Decode"]);
+  assert.deepEqual(diff.changedModules[0].added.values, ["empty"]);
+  assert.equal(diff.changedModules[0].magnitude, "MINOR");
+});
+
+test("diffDocs: removing or changing is a MAJOR change", () => {
+  const diff = changed({
+    ...base,
+    unions: [{ ...base.unions[0], cases: [["Leaf", ["a"]]] }],
+    values: [base.values[0]],
+    binops: [{ ...base.binops[0], precedence: 6 }],
+  });
+  assert.equal(diff.magnitude, "MAJOR");
+  assert.equal(diff.suggestedVersion, "2.0.0");
+  const [changes] = diff.changedModules;
+  assert.deepEqual(changes.removed.values, ["sum"]);
+  assert.deepEqual(changes.changed.unions, ["Value"]);
+  assert.deepEqual(changes.changed.binops, ["|="]);
+  assert.deepEqual(changes.changed.aliases, []);
+});
+
+test("diffDocs: removing a module is a MAJOR change", () => {
+  const diff = diffDocs("1.2.3", [base, module("Json.Decode")], "1.2.4", [
+    base,
+  ]);
+  assert.equal(diff.magnitude, "MAJOR");
+  assert.deepEqual(diff.removedModules, ["Json.Decode"]);
+});
@@ -0,0 +1,37 @@
+port {- the module -} module Comments exposing (..)
+
+{-| Ports surrounded by comments.
+
+port fake : String -> Cmd msg
+
+-}
+
+-- port commented : String -> Cmd msg
+
+
+port {- outgoing -} send : String {- text -} -> Cmd msg -- send it
+
+
+port receive -- from JavaScript
+    : (String -> msg)
+    -> Sub msg
+
+
+{- nested {- block -}
+port nested : String -> Cmd msg
+-}
+message : String
+message =
+    "port inString : String -> Cmd msg"
+
+
+multiline : String
+multiline =
+    """
+port inMultilineString : String -> Cmd msg
+"""
+
+
+char : Char
+char =
+    '"'
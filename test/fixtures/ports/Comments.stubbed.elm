@@ -0,0 +1,43 @@
+module Comments exposing (..)
+
+{-| Ports surrounded by comments.
+
+port fake : String -> Cmd msg
+
+-}
+
+-- port commented : String -> Cmd msg
+
+
+send : String {- text -} -> Cmd msg -- send it
+send =
+    always Cmd.none
+
+
+
+receive -- from JavaScript
+    : (String -> msg)
+    -> Sub msg
+receive =
+    always Sub.none
+
+
+
+{- nested {- block -}
+port nested : String -> Cmd msg
+-}
+message : String
+message =
+    "port inString : String -> Cmd msg"
+
+
+multiline : String
+multiline =
+    """
+port inMultilineString : String -> Cmd msg
+"""
+
+
+char : Char
+char =
+    '"'
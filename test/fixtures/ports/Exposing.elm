@@ -0,0 +1,16 @@
+port module Exposing exposing
+    ( Model
+    , -- the ports
+      receive
+    , send
+    )
+
+
+type alias Model =
+    { text : String }
+
+
+port send : String -> Cmd msg
+
+
+port receive : (String -> msg) -> Sub msg
@@ -0,0 +1,22 @@
+module Exposing exposing
+    ( Model
+    , -- the ports
+      receive
+    , send
+    )
+
+
+type alias Model =
+    { text : String }
+
+
+send : String -> Cmd msg
+send =
+    always Cmd.none
+
+
+
+receive : (String -> msg) -> Sub msg
+receive =
+    always Sub.none
+
@@ -0,0 +1,28 @@
+port module Layout exposing (main, output, problem)
+
+import Platform
+
+
+main : Program () () ()
+main =
+    Platform.worker
+        { init = \_ -> ( (), Cmd.none )
+        , update =
+            \_ model ->
+                let
+                    next =
+                        model
+                in
+                ( next, Cmd.none )
+        , subscriptions = \_ -> Sub.none
+        }
+
+
+type Msg
+    = First
+    | Second
+
+
+port output : String -> Cmd msg
+port problem : String -> String
+port
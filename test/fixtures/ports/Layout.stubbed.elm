@@ -0,0 +1,31 @@
+module Layout exposing (main, output, problem)
+
+import Platform
+
+
+main : Program () () ()
+main =
+    Platform.worker
+        { init = \_ -> ( (), Cmd.none )
+        , update =
+            \_ model ->
+                let
+                    next =
+                        model
+                in
+                ( next, Cmd.none )
+        , subscriptions = \_ -> Sub.none
+        }
+
+
+type Msg
+    = First
+    | Second
+
+
+output : String -> Cmd msg
+output =
+    always Cmd.none
+
+port problem : String -> String
+port
@@ -0,0 +1,25 @@
+port module MultiLineSignatures exposing (receive, send, store)
+
+import Json.Encode as E
+
+
+port send :
+    { id : Int
+    , callback : String -> E.Value
+    }
+    -> Cmd msg
+
+
+port receive :
+    (( String, Int ) -> msg)
+    -> Sub msg
+
+
+port store
+    : E.Value
+    -> Platform.Cmd.Cmd msg
+
+
+update : msg -> model -> ( model, Cmd msg )
+update _ model =
+    ( model, Cmd.none )
@@ -0,0 +1,34 @@
+module MultiLineSignatures exposing (receive, send, store)
+
+import Json.Encode as E
+
+
+send :
+    { id : Int
+    , callback : String -> E.Value
+    }
+    -> Cmd msg
+send =
+    always Cmd.none
+
+
+
+receive :
+    (( String, Int ) -> msg)
+    -> Sub msg
+receive =
+    always Sub.none
+
+
+
+store
+    : E.Value
+    -> Platform.Cmd.Cmd msg
+store =
+    always Cmd.none
+
+
+
+update : msg -> model -> ( model, Cmd msg )
+update _ model =
+    ( model, Cmd.none )
@@ -0,0 +1,9 @@
+module NotAPortModule exposing (port_)
+
+{-| Not a port module.
+-}
+
+
+port_ : String -> String
+port_ =
+    identity
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { mask, stubPorts, topLevelDeclarations } from "../lib/ports.js";
+
+/*
+ * Each fixture module Name.elm comes with Name.json describing the expected
+ * top-level declarations lines, the words that masking must hide, and the
+ * stubbed ports and problems (null when not a port module), and with the
+ * expected stubbed source Name.stubbed.elm for port modules.
+ */
+const fixtures = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures",
+  "ports"
+);
+
+function lineNumber(source, position) {
+  return source.slice(0, position).split("\n").length;
+}
+
+fs.readdirSync(fixtures)
+  .filter((file) => /^[A-Z]\w*\.elm$/.test(file))
+  .forEach((file) => {
+    const name = path.basename(file, ".elm");
+    const source = fs.readFileSync(path.join(fixtures, file), "utf8");
+    const expected = JSON.parse(
+      fs.readFileSync(path.join(fixtures, `${name}.json`), "utf8")
+    );
+
+    test(`${name}: masking keeps positions and hides comments and literals`, () => {
+      const masked = mask(source);
+      assert.equal(masked.length, source.length);
+      assert.deepEqual(
+        masked.split("\n").map((line) => line.length),
+        source.split("\n").map((line) => line.length)
+      );
+      assert.doesNotMatch(masked, /--|\{-|-\}|"|'/);
+      expected.hidden.forEach((word) => {
+        assert.ok(source.includes(word), `${word} is not in the fixture`);
+        assert.ok(!masked.includes(word), `${word} is not masked`);
+      });
+    });
+
+    test(`${name}: top-level declarations`, () => {
+      const lines = topLevelDeclarations(mask(source)).map((start) =>
+        lineNumber(source, start)
+      );
+      assert.deepEqual(lines, expected.declarations);
+    });
+
+    test(`${name}: ports stubs`, () => {
+      const stubbed = stubPorts(source);
+      if (expected.ports === null) {
+        assert.equal(stubbed, null);
+        return;
+      }
+      assert.notEqual(stubbed, null);
+      assert.deepEqual(stubbed.ports, expected.ports);
+      assert.deepEqual(stubbed.problems, expected.problems);
+      assert.equal(
+        stubbed.source,
+        fs.readFileSync(path.join(fixtures, `${name}.stubbed.elm`), "utf8")
+      );
+    });
+  });
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { SymbolIndex, parseType } from "../lib/search.js";
+
+function value(name, type) {
+  return { name, comment: "", type };
+}
+
+function docs(name, values) {
+  return [{ name, comment: "", unions: [], aliases: [], values, binops: [] }];
+}
+
+const index = new SymbolIndex();
+index.set(
+  "elm/core",
+  "1.0.5",
+  docs("List", [
+    value("head", "List.List a -> Maybe.Maybe a"),
+    value("sum", "List.List number -> number"),
+    value("sort", "List.List comparable -> List.List comparable"),
+    value("map", "(a -> b) -> List.List a -> List.List b"),
+    value("length", "List.List a -> Basics.Int"),
+    value("concat", "List.List (List.List a) -> List.List a"),
+    value("foldl", "(a -> b -> b) -> b -> List.List a -> b"),
+  ])
+);
+index.set(
+  "me/strings",
+  "1.0.0",
+  docs("Strings", [
+    value("join", "appendable -> appendable -> appendable"),
+    value("maximum", "List.List comparable -> Maybe.Maybe comparable"),
+  ])
+);
+
+function names(query) {
+  return index.search(query).map(({ module, name }) => `${module}.${name}`);
+}
+
+test("parseType: functions, applications and qualified names", () => {
+  assert.deepEqual(parseType("List.List a -> Maybe.Maybe a"), {
+    kind: "fun",
+    args: [{ kind: "app", name: "List", args: [{ kind: "var", name: "a" }] }],
+    result: {
+      kind: "app",
+      name: "Maybe",
+      args: [{ kind: "var", name: "a" }],
+    },
+  });
+  assert.deepEqual(parseType("(a -> b) -> c"), {
+    kind: "fun",
+    args: [
+      {
+        kind: "fun",
+        args: [{ kind: "var", name: "a" }],
+        result: { kind: "var", name: "b" },
+      },
+    ],
+    result: { kind: "var", name: "c" },
+  });
+});
+
+test("parseType: tuples, unit and records", () => {
+  assert.deepEqual(parseType("( Int, () )"), {
+    kind: "tuple",
+    items: [
+      { kind: "app", name: "Int", args: [] },
+      { kind: "app", name: "()", args: [] },
+    ],
+  });
+  assert.deepEqual(parseType("{ r | x : Float, y : Float }"), {
+    kind: "record",
+    fields: [
+      ["x", { kind: "app", name: "Float", args: [] }],
+      ["y", { kind: "app", name: "Float", args: [] }],
+    ],
+  });
+});
+
+test("parseType: syntax errors", () => {
+  assert.equal(parseType("List a ->"), null);
+  assert.equal(parseType("( a, b"), null);
+  assert.equal(parseType("a b )"), null);
+});
+
+test("unification: instantiates type variables", () => {
+  assert.deepEqual(names("List Int -> Maybe Int").slice(0, 2), [
+    "List.head",
+    "Strings.maximum",
+  ]);
+  assert.ok(names("List x -> Maybe x").includes("List.head"));
+  assert.ok(!names("List a -> Maybe b").includes("List.length"));
+});
+
+test("unification: constrained type variables", () => {
+  assert.ok(names("List Float -> Float").includes("List.sum"));
+  assert.ok(!names("List String -> String").includes("List.sum"));
+  assert.ok(names("List String -> List String").includes("List.sort"));
+  assert.ok(
+    !names("List (Maybe Int) -> List (Maybe Int)").includes("List.sort")
+  );
+  assert.ok(
+    names("List ( Int, Char ) -> Maybe ( Int, Char )").includes(
+      "Strings.maximum"
+    )
+  );
+  assert.ok(names("String -> String -> String").includes("Strings.join"));
+  assert.ok(!names("Int -> Int -> Int").includes("Strings.join"));
+  assert.ok(names("List number -> number").includes("List.sum"));
+  assert.ok(names("List number -> Maybe number").includes("Strings.maximum"));
+});
+
+test("ranking: exact types first, then instances and reordered arguments", () => {
+  assert.deepEqual(names("List a -> Maybe a"), [
+    "List.head",
+    "Strings.maximum",
+  ]);
+  assert.equal(names("List a -> (a -> b) -> List b")[0], "List.map");
+  assert.deepEqual(names("List a -> Int"), ["List.length", "List.sum"]);
+});
+
+test("ranking: by name", () => {
+  assert.deepEqual(names("List.head"), ["List.head"]);
+  assert.deepEqual(names("ma").slice(0, 2), ["List.map", "Strings.maximum"]);
+  assert.deepEqual(names("o"), [
+    "List.sort",
+    "Strings.join",
+    "List.foldl",
+    "List.concat",
+  ]);
+});